@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  appendAuditEntry,
+  createAuditEntry,
+  filterAuditEntries,
+  formatAuditEntry,
+  hashToolInput,
+  readAuditLog,
+} from "../audit";
+import type { AuditEntry, ClaudeHookInput } from "../types";
+
+const input: ClaudeHookInput = {
+  session_id: "session-1",
+  transcript_path: "/tmp/transcript.jsonl",
+  cwd: "/home/user/my-app",
+  hook_event_name: "PreToolUse",
+  tool_name: "Bash",
+  tool_input: { command: "git push" },
+};
+
+function entry(overrides: Partial<AuditEntry>): AuditEntry {
+  return {
+    requested_at: "2026-10-01T10:00:00.000Z",
+    decided_at: "2026-10-01T10:00:05.000Z",
+    latency_ms: 5000,
+    cwd: "/home/user/my-app",
+    decision: "approve",
+    source: "telegram",
+    ...overrides,
+  };
+}
+
+describe("createAuditEntry", () => {
+  test("should record who decided and how long it took", () => {
+    const requestedAt = Date.now() - 2000;
+    const result = createAuditEntry(input, "main", requestedAt, {
+      decision: "approve",
+      source: "telegram",
+      responder: { id: 42, username: "bob", name: "Bob" },
+    });
+
+    expect(result.session_id).toBe("session-1");
+    expect(result.branch).toBe("main");
+    expect(result.tool_input_hash).toBe(hashToolInput(input.tool_input));
+    expect(result.responder?.username).toBe("bob");
+    expect(result.latency_ms).toBeGreaterThanOrEqual(2000);
+  });
+
+  test("should hash tool input instead of storing it", () => {
+    const result = createAuditEntry(input, undefined, Date.now(), {
+      decision: "deny",
+      source: "policy",
+    });
+
+    expect(result.tool_input_hash).toHaveLength(64);
+    expect(JSON.stringify(result)).not.toContain("git push");
+  });
+});
+
+describe("filterAuditEntries", () => {
+  const entries = [
+    entry({}),
+    entry({ requested_at: "2026-10-05T10:00:00.000Z", decision: "deny" }),
+    entry({ cwd: "/home/user/other", decision: "timeout" }),
+  ];
+
+  test("should filter by date range", () => {
+    const result = filterAuditEntries(entries, {
+      since: new Date("2026-10-02"),
+    });
+
+    expect(result).toHaveLength(1);
+    expect(result[0]?.decision).toBe("deny");
+  });
+
+  test("should filter by project and decision", () => {
+    expect(filterAuditEntries(entries, { project: "other" })).toHaveLength(1);
+    expect(filterAuditEntries(entries, { decision: "approve" })).toHaveLength(
+      1
+    );
+  });
+});
+
+describe("audit log file", () => {
+  const testDir = join(tmpdir(), `claude-telegram-audit-${Date.now()}`);
+  const logPath = join(testDir, "audit.jsonl");
+
+  beforeEach(async () => {
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  test("should append entries and read them back", async () => {
+    await appendAuditEntry(entry({ decision: "approve" }), logPath);
+    await appendAuditEntry(entry({ decision: "deny" }), logPath);
+
+    const entries = await readAuditLog(logPath);
+    expect(entries.map((e) => e.decision)).toEqual(["approve", "deny"]);
+  });
+
+  test("should skip partially written lines", async () => {
+    await Bun.write(logPath, `${JSON.stringify(entry({}))}\n{"requested_`);
+
+    expect(await readAuditLog(logPath)).toHaveLength(1);
+  });
+});
+
+describe("formatAuditEntry", () => {
+  test("should show decision, responder and latency", () => {
+    const line = formatAuditEntry(
+      entry({
+        branch: "main",
+        tool_name: "Bash",
+        responder: { id: 1, username: "alice", name: "Alice" },
+      })
+    );
+
+    expect(line).toContain("2026-10-01 10:00:00");
+    expect(line).toContain("@alice");
+    expect(line).toContain("my-app (main)");
+    expect(line).toContain("5.0s");
+  });
+});
@@ -0,0 +1,236 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  mock,
+  spyOn,
+  test,
+} from "bun:test";
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  CommandRouter,
+  formatPending,
+  formatSessions,
+  formatStatus,
+  parseCommand,
+  registerCommands,
+} from "../commands";
+import { TelegramClient } from "../telegram";
+import type { PendingRequest, TelegramConfig, TelegramUpdate } from "../types";
+
+const mockConfig: TelegramConfig = {
+  botToken: "123456789:ABCdefGHIjklMNOpqrsTUVwxyz",
+  chatId: "987654321",
+  timeout: 60,
+  projectPath: "/test/project",
+};
+
+const now = 1_000_000_000;
+
+const pending: PendingRequest[] = [
+  {
+    messageId: 42,
+    chatId: "987654321",
+    waitingForText: false,
+    info: {
+      sessionId: "session-a",
+      projectName: "api",
+      gitBranch: "main",
+      summary: "Bash: npm test",
+      requestedAt: now - 180_000,
+    },
+  },
+];
+
+function commandUpdate(text: string, chatId = 987_654_321): TelegramUpdate {
+  return {
+    update_id: 1,
+    message: {
+      message_id: 5,
+      from: { id: 1, is_bot: false, first_name: "Test" },
+      chat: { id: chatId, type: "private" },
+      date: 0,
+      text,
+    },
+  };
+}
+
+describe("parseCommand", () => {
+  test("reads known commands, with or without a bot name", () => {
+    expect(parseCommand("/status")).toEqual({ name: "status" });
+    expect(parseCommand("/Pending@my_bot now")).toEqual({
+      name: "pending",
+      bot: "my_bot",
+    });
+  });
+
+  test("ignores other text", () => {
+    expect(parseCommand("/start")).toBeUndefined();
+    expect(parseCommand("status")).toBeUndefined();
+    expect(parseCommand("/statusreport")).toBeUndefined();
+    expect(parseCommand(undefined)).toBeUndefined();
+  });
+});
+
+describe("formatStatus", () => {
+  test("shows uptime, profile, pending count and muted events", () => {
+    const { text } = formatStatus(
+      {
+        mode: "daemon",
+        startedAt: now - 2 * 60 * 60 * 1000,
+        config: {
+          ...mockConfig,
+          profile: "work",
+          events: { SessionStart: false },
+        },
+      },
+      3,
+      now
+    );
+
+    expect(text).toContain("<b>Daemon uptime:</b> 2h");
+    expect(text).toContain("<b>Profile:</b> work");
+    expect(text).toContain("<b>Pending requests:</b> 3");
+    expect(text).toContain("<b>Muted events:</b> SessionStart");
+  });
+});
+
+describe("formatPending", () => {
+  test("lists requests with a button each", () => {
+    const reply = formatPending(pending, now);
+
+    expect(reply.text).toContain(
+      "1. <b>api</b> (<code>main</code>): Bash: npm test, waiting 3 min"
+    );
+    expect(reply.keyboard?.inline_keyboard).toEqual([
+      [{ text: "1. Bash: npm test", callback_data: "pending:42" }],
+    ]);
+  });
+
+  test("says when nothing is waiting", () => {
+    expect(formatPending([], now)).toEqual({
+      text: "No requests are waiting for a response.",
+    });
+  });
+});
+
+describe("formatSessions", () => {
+  test("shows each session with its pending count", () => {
+    const { text } = formatSessions(
+      [
+        {
+          sessionId: "session-a",
+          projectName: "api",
+          gitBranch: "main",
+          cwd: "/repo/api",
+          startedAt: now - 3_600_000,
+          lastSeenAt: now - 30_000,
+        },
+      ],
+      pending,
+      now
+    );
+
+    expect(text).toContain("<b>Active sessions</b> (1)");
+    expect(text).toContain("<code>session-a</code>");
+    expect(text).toContain("started 1h ago, last active 30s ago, 1 pending");
+  });
+});
+
+describe("CommandRouter", () => {
+  const sessionsPath = join(tmpdir(), `claude-telegram-cmd-${Date.now()}.json`);
+  const originalFetch = globalThis.fetch;
+  let requests: { method: string; body: Record<string, unknown> }[];
+  let router: CommandRouter;
+
+  beforeEach(() => {
+    requests = [];
+    globalThis.fetch = mock((url: string, init: RequestInit) => {
+      requests.push({
+        method: url.split("/").at(-1) ?? "",
+        body: JSON.parse(String(init.body)),
+      });
+      return Promise.resolve(Response.json({ ok: true, result: true }));
+    }) as unknown as typeof fetch;
+    const client = new TelegramClient(mockConfig);
+    router = new CommandRouter(
+      client,
+      { mode: "hook", startedAt: Date.now(), config: mockConfig },
+      sessionsPath
+    );
+  });
+
+  afterEach(async () => {
+    globalThis.fetch = originalFetch;
+    await rm(sessionsPath, { force: true });
+  });
+
+  test("answers a command as a reply", async () => {
+    expect(await router.handle(commandUpdate("/pending"), pending)).toBe(true);
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0]?.method).toBe("sendMessage");
+    expect(requests[0]?.body.reply_to_message_id).toBe(5);
+    expect(requests[0]?.body.text).toContain("Bash: npm test");
+  });
+
+  test("leaves other chats and plain text alone", async () => {
+    expect(await router.handle(commandUpdate("/status", 111), pending)).toBe(
+      false
+    );
+    expect(await router.handle(commandUpdate("hello"), pending)).toBe(false);
+    expect(requests).toHaveLength(0);
+  });
+
+  test("registers the command menu for the configured chat", async () => {
+    await registerCommands(new TelegramClient(mockConfig));
+
+    expect(requests[0]?.method).toBe("setMyCommands");
+    expect(requests[0]?.body.scope).toEqual({
+      type: "chat",
+      chat_id: "987654321",
+    });
+  });
+
+  test("only logs a failed registration", async () => {
+    globalThis.fetch = mock(() =>
+      Promise.resolve(Response.json({ ok: false, description: "Forbidden" }))
+    ) as unknown as typeof fetch;
+    const logError = spyOn(console, "error").mockImplementation(() => {
+      // Expected
+    });
+
+    await registerCommands(new TelegramClient(mockConfig));
+
+    expect(logError).toHaveBeenCalledWith(
+      "Failed to register commands:",
+      "Telegram API error: Forbidden"
+    );
+    logError.mockRestore();
+  });
+
+  test("a /pending button replies to the waiting request", async () => {
+    const handled = await router.handle(
+      {
+        update_id: 2,
+        callback_query: {
+          id: "cb",
+          from: { id: 1, is_bot: false, first_name: "Test" },
+          chat_instance: "test",
+          data: "pending:42",
+        },
+      },
+      pending
+    );
+
+    expect(handled).toBe(true);
+    expect(requests.map((request) => request.method)).toEqual([
+      "answerCallbackQuery",
+      "sendMessage",
+    ]);
+    expect(requests[1]?.body.reply_to_message_id).toBe(42);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, expect, test } from "bun:test";
+import {
+  CONFIG_VERSION,
+  migrateConfig,
+  validateProjectConfig,
+  validateStoredConfig,
+} from "../config-schema";
+
+describe("validateStoredConfig", () => {
+  test("should accept a complete config", () => {
+    expect(
+      validateStoredConfig({
+        version: CONFIG_VERSION,
+        botToken: "123:ABC",
+        chatId: "456",
+        timeout: 600,
+        allowedUserIds: [1, 2],
+        timeoutPolicy: {
+          action: "remind",
+          reminders: [300],
+          tools: { Bash: { action: "escalate", escalateChatId: "-100" } },
+        },
+        profiles: { work: { chatId: "-100" } },
+        profileRoutes: { "~/work/**": "work" },
+        continueTimeout: 0,
+        events: { SessionStart: false, PreCompact: true },
+      })
+    ).toEqual([]);
+  });
+
+  test("should point at unknown keys and suggest the intended one", () => {
+    expect(
+      validateStoredConfig({ botToken: "1:A", chatId: "2", timout: 60 })
+    ).toEqual(['timout: unknown key (did you mean "timeout"?)']);
+  });
+
+  test("should report nested problems with their full path", () => {
+    const errors = validateStoredConfig({
+      botToken: "1:A",
+      chatId: "2",
+      timeoutPolicy: { tools: { Bash: { action: "explode" } } },
+      profiles: { work: { timeout: "soon", events: { PreCompact: "no" } } },
+    });
+
+    expect(errors).toEqual([
+      "timeoutPolicy.tools.Bash.action: must be one of deny, allow, remind, escalate",
+      "profiles.work.timeout: expected number, got string",
+      "profiles.work.events.PreCompact: expected boolean, got string",
+    ]);
+  });
+
+  test("should reject non-object configs", () => {
+    expect(validateStoredConfig([])).toEqual([
+      "config: expected object, got array",
+    ]);
+  });
+});
+
+describe("validateProjectConfig", () => {
+  test("should allow a profile name next to notification settings", () => {
+    expect(
+      validateProjectConfig({
+        profile: "work",
+        events: { PreCompact: false },
+        failureAlertCooldown: 60,
+      })
+    ).toEqual([]);
+    expect(validateProjectConfig({ profiles: {} })).toEqual([
+      'profiles: unknown key (did you mean "profile"?)',
+    ]);
+  });
+
+  test("should refuse settings that change where requests go", () => {
+    expect(
+      validateProjectConfig({ botToken: "1:A", approverUsernames: ["eve"] })
+    ).toEqual([
+      "botToken: not allowed in a project file; set it in config.json or a profile",
+      "approverUsernames: not allowed in a project file; set it in config.json or a profile",
+    ]);
+  });
+
+  test("should reject numbers that aren't finite", () => {
+    expect(validateProjectConfig({ failureAlertCooldown: Number.NaN })).toEqual(
+      ["failureAlertCooldown: expected a number, got NaN"]
+    );
+  });
+});
+
+describe("migrateConfig", () => {
+  test("should upgrade unversioned configs", () => {
+    const { config, migrated } = migrateConfig({
+      botToken: "1:A",
+      chatId: 456,
+      profiles: { work: { chatId: -100 } },
+    });
+
+    expect(migrated).toBe(true);
+    expect(config).toEqual({
+      version: CONFIG_VERSION,
+      botToken: "1:A",
+      chatId: "456",
+      profiles: { work: { chatId: "-100" } },
+    });
+  });
+
+  test("should leave malformed profiles for validation", () => {
+    const { config } = migrateConfig({
+      botToken: "1:A",
+      profiles: { work: null, home: { chatId: 7 } },
+    });
+    expect(config.profiles).toEqual({ work: null, home: { chatId: "7" } });
+    expect(validateStoredConfig(config)).toContain(
+      "profiles.work: expected object, got null"
+    );
+
+    const listed = migrateConfig({ botToken: "1:A", profiles: "x" }).config;
+    expect(listed.profiles).toBe("x");
+  });
+
+  test("should leave current configs alone", () => {
+    const current = { version: CONFIG_VERSION, botToken: "1:A", chatId: "2" };
+
+    expect(migrateConfig(current)).toEqual({
+      config: current,
+      migrated: false,
+    });
+  });
+
+  test("should refuse configs from a newer release", () => {
+    expect(() => migrateConfig({ version: CONFIG_VERSION + 1 })).toThrow(
+      "newer than this claude-telegram supports"
+    );
+  });
+});
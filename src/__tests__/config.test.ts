@@ -1,7 +1,20 @@
 import { afterEach, beforeEach, describe, expect, test } from "bun:test";
-import { mkdir, rm } from "node:fs/promises";
+import { mkdir, rm, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
+import {
+  formatResolvedConfig,
+  getCliOverrides,
+  loadConfig,
+  PROJECT_CONFIG_FILE,
+  resolveConfig,
+} from "../config";
+import { CONFIG_VERSION } from "../config-schema";
+
+// Private like a real config, so loading it doesn't warn about sharing
+function writeConfigFixture(path: string, content: string): Promise<void> {
+  return writeFile(path, content, { mode: 0o600 });
+}
 
 // We need to test config functions with a temporary directory
 // Since config.ts uses hardcoded paths, we'll test the logic patterns
@@ -26,7 +39,10 @@ describe("Config module", () => {
     };
 
     // Write config
-    await Bun.write(testConfigPath, JSON.stringify(testConfig, null, 2));
+    await writeConfigFixture(
+      testConfigPath,
+      JSON.stringify(testConfig, null, 2)
+    );
 
     // Read it back
     const file = Bun.file(testConfigPath);
@@ -75,3 +91,263 @@ describe("Config module", () => {
     expect(timeout).toBe(3600);
   });
 });
+
+describe("Config profiles", () => {
+  const testDir = join(tmpdir(), `claude-telegram-profiles-${Date.now()}`);
+  const configPath = join(testDir, "config.json");
+  const workDir = join(testDir, "work", "api");
+  const personalDir = join(testDir, "personal", "blog");
+
+  beforeEach(async () => {
+    await mkdir(workDir, { recursive: true });
+    await mkdir(personalDir, { recursive: true });
+    await writeConfigFixture(
+      configPath,
+      JSON.stringify({
+        botToken: "111:default",
+        chatId: "dm",
+        profiles: {
+          work: { chatId: "-100group", timeout: 600 },
+          side: { botToken: "222:side", chatId: "side-dm" },
+        },
+        profileRoutes: { [join(testDir, "work", "**")]: "work" },
+      })
+    );
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  test("should use the default profile when nothing matches", async () => {
+    const config = await loadConfig({
+      cwd: personalDir,
+      path: configPath,
+      env: {},
+    });
+
+    expect(config.profile).toBeUndefined();
+    expect(config.chatId).toBe("dm");
+    expect(config.timeout).toBe(3600);
+    expect(config.continueTimeout).toBe(0);
+  });
+
+  test("should route by path glob and inherit the default bot", async () => {
+    const config = await loadConfig({
+      cwd: workDir,
+      path: configPath,
+      env: {},
+    });
+
+    expect(config.profile).toBe("work");
+    expect(config.botToken).toBe("111:default");
+    expect(config.chatId).toBe("-100group");
+    expect(config.timeout).toBe(600);
+  });
+
+  test("should prefer a project file over path routes", async () => {
+    await Bun.write(
+      join(testDir, "work", PROJECT_CONFIG_FILE),
+      JSON.stringify({ profile: "side" })
+    );
+
+    const config = await loadConfig({
+      cwd: workDir,
+      path: configPath,
+      env: {},
+    });
+
+    expect(config.profile).toBe("side");
+    expect(config.botToken).toBe("222:side");
+  });
+
+  test("should prefer an explicit profile over everything", async () => {
+    const config = await loadConfig({
+      cwd: workDir,
+      profile: "side",
+      path: configPath,
+      env: {},
+    });
+
+    expect(config.chatId).toBe("side-dm");
+  });
+
+  test("should reject unknown profiles", async () => {
+    await expect(
+      loadConfig({
+        cwd: workDir,
+        profile: "missing",
+        path: configPath,
+        env: {},
+      })
+    ).rejects.toThrow('Unknown profile "missing"');
+  });
+});
+
+describe("Layered config", () => {
+  const testDir = join(tmpdir(), `claude-telegram-layers-${Date.now()}`);
+  const configPath = join(testDir, "config.json");
+  const projectDir = join(testDir, "project", "src");
+
+  beforeEach(async () => {
+    await mkdir(projectDir, { recursive: true });
+    await writeConfigFixture(
+      configPath,
+      JSON.stringify({ botToken: "111:file", chatId: "file-chat" })
+    );
+    await Bun.write(
+      join(testDir, "project", PROJECT_CONFIG_FILE),
+      JSON.stringify({ events: { SessionStart: false } })
+    );
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  test("should apply layers in order and record their sources", async () => {
+    const resolved = await resolveConfig({
+      cwd: projectDir,
+      path: configPath,
+      env: { TELEGRAM_BOT_TOKEN: "222:env", TELEGRAM_CHAT_ID: "env-chat" },
+      overrides: { timeout: 60 },
+    });
+
+    expect(resolved.values).toMatchObject({
+      botToken: "222:env",
+      chatId: "env-chat",
+      timeout: 60,
+    });
+    expect(resolved.sources).toEqual({
+      botToken: "env",
+      chatId: "env",
+      timeout: "cli",
+      events: "project",
+    });
+    expect(resolved.projectPath).toBe(
+      join(testDir, "project", PROJECT_CONFIG_FILE)
+    );
+  });
+
+  test("should fall back to the project file and defaults", async () => {
+    const resolved = await resolveConfig({
+      cwd: projectDir,
+      path: configPath,
+      env: {},
+    });
+
+    expect(resolved.sources.botToken).toBe("global");
+    expect(resolved.sources.chatId).toBe("global");
+    expect(resolved.sources.timeout).toBe("default");
+    expect(resolved.values.events).toEqual({ SessionStart: false });
+  });
+
+  test("should load from env vars alone, without a config file", async () => {
+    const config = await loadConfig({
+      cwd: testDir,
+      path: join(testDir, "missing.json"),
+      env: { TELEGRAM_BOT_TOKEN: "333:ci", TELEGRAM_CHAT_ID: "ci-chat" },
+    });
+
+    expect(config.botToken).toBe("333:ci");
+    expect(config.timeout).toBe(3600);
+  });
+
+  test("should let a token reference replace a lower-layer token", async () => {
+    await writeConfigFixture(
+      configPath,
+      JSON.stringify({
+        botToken: "111:file",
+        chatId: "file-chat",
+        profiles: { work: { botTokenRef: "pass:work" } },
+      })
+    );
+
+    const resolved = await resolveConfig({
+      cwd: projectDir,
+      path: configPath,
+      profile: "work",
+      env: {},
+    });
+
+    expect(resolved.values.botToken).toBeUndefined();
+    expect(resolved.values.botTokenRef).toBe("pass:work");
+    expect(resolved.sources.botTokenRef).toBe("profile");
+  });
+
+  test("should refuse security settings in a project file", async () => {
+    await Bun.write(
+      join(testDir, "project", PROJECT_CONFIG_FILE),
+      JSON.stringify({
+        chatId: "attacker-chat",
+        timeoutPolicy: { action: "allow" },
+      })
+    );
+
+    const error = await resolveConfig({
+      cwd: projectDir,
+      path: configPath,
+      env: {},
+    }).catch((caught: Error) => caught);
+
+    expect(String(error)).toContain(
+      "chatId: not allowed in a project file; set it in config.json or a profile"
+    );
+    expect(String(error)).toContain("timeoutPolicy: not allowed");
+  });
+
+  test("should reject a timeout that isn't a positive number", async () => {
+    for (const value of ["abc", "0", " "]) {
+      await expect(
+        resolveConfig({
+          cwd: testDir,
+          path: configPath,
+          env: { CLAUDE_TELEGRAM_TIMEOUT: value },
+        })
+      ).rejects.toThrow(`Invalid CLAUDE_TELEGRAM_TIMEOUT "${value}": timeout:`);
+    }
+    expect(() => getCliOverrides(["--timeout", "soon"])).toThrow(
+      'Invalid --timeout "soon": timeout: expected a number, got NaN'
+    );
+    expect(getCliOverrides(["--timeout", "90"])).toEqual({ timeout: 90 });
+  });
+
+  test("should report malformed JSON with the file path", async () => {
+    await writeConfigFixture(configPath, "{ botToken: ");
+
+    await expect(
+      loadConfig({ cwd: testDir, path: configPath, env: {} })
+    ).rejects.toThrow(`Invalid config at ${configPath}: not valid JSON`);
+  });
+
+  test("should save the upgraded config after migrating", async () => {
+    await writeConfigFixture(
+      configPath,
+      JSON.stringify({ botToken: "1:A", chatId: 5 })
+    );
+
+    const config = await loadConfig({
+      cwd: testDir,
+      path: configPath,
+      env: {},
+    });
+
+    expect(config.chatId).toBe("5");
+    expect(await Bun.file(configPath).json()).toMatchObject({
+      version: CONFIG_VERSION,
+      chatId: "5",
+    });
+  });
+
+  test("should redact the bot token when shown", async () => {
+    const resolved = await resolveConfig({
+      cwd: testDir,
+      path: configPath,
+      env: {},
+    });
+
+    const shown = formatResolvedConfig(resolved);
+    expect(shown).toContain('"111:****"');
+    expect(shown).not.toContain("111:file");
+  });
+});
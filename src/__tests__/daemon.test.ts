@@ -0,0 +1,300 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  mock,
+  spyOn,
+  test,
+} from "bun:test";
+import { mkdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { DaemonServer } from "../daemon";
+import { isDaemonRunning, waitViaDaemon } from "../daemon-client";
+import { TelegramClient } from "../telegram";
+import type { PendingRequest, TelegramConfig, TelegramUpdate } from "../types";
+
+const mockConfig: TelegramConfig = {
+  botToken: "123456789:ABCdefGHIjklMNOpqrsTUVwxyz",
+  chatId: "987654321",
+  timeout: 60,
+  projectPath: "/test/project",
+};
+
+const responder = { id: 1, name: "Test" };
+
+function pendingFor(
+  messageId: number,
+  overrides: Partial<PendingRequest> = {}
+): PendingRequest {
+  return { messageId, waitingForText: false, ...overrides };
+}
+
+// Messages the fake Bot API knows, as "chatId:messageId"; like Telegram,
+// it refuses edits that name the wrong chat
+const sentMessages = new Set<string>();
+let apiCalls: { method: string; body: Record<string, unknown> }[] = [];
+
+function fakeBotApi(url: string, init: RequestInit): Promise<Response> {
+  const method = url.split("/").at(-1) ?? "";
+  const body = JSON.parse(String(init.body)) as Record<string, unknown>;
+  apiCalls.push({ method, body });
+  if (
+    method.startsWith("editMessage") &&
+    !sentMessages.has(`${body.chat_id}:${body.message_id}`)
+  ) {
+    return Promise.resolve(
+      Response.json({
+        ok: false,
+        description: "Bad Request: message to edit not found",
+      })
+    );
+  }
+  return Promise.resolve(Response.json({ ok: true, result: true }));
+}
+
+function callbackUpdate(
+  messageId: number,
+  data: string,
+  chatId = 987_654_321,
+  userId = 1
+): TelegramUpdate {
+  sentMessages.add(`${chatId}:${messageId}`);
+  return {
+    update_id: messageId,
+    callback_query: {
+      id: `cb-${messageId}`,
+      from: { id: userId, is_bot: false, first_name: "Test" },
+      message: {
+        message_id: messageId,
+        chat: { id: chatId, type: "private" },
+        date: 0,
+      },
+      chat_instance: "test",
+      data,
+    },
+  };
+}
+
+describe("DaemonServer", () => {
+  const testDir = join(tmpdir(), `claude-telegram-daemon-${Date.now()}`);
+  const socketPath = join(testDir, "daemon.sock");
+  const originalFetch = globalThis.fetch;
+  let server: DaemonServer;
+
+  beforeEach(async () => {
+    await mkdir(testDir, { recursive: true });
+    sentMessages.clear();
+    apiCalls = [];
+    globalThis.fetch = mock(fakeBotApi) as unknown as typeof fetch;
+    server = new DaemonServer(new TelegramClient(mockConfig), socketPath);
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    globalThis.fetch = originalFetch;
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  test("should report a running daemon", async () => {
+    expect(await isDaemonRunning(socketPath)).toBe(true);
+  });
+
+  test("should route a button tap to the waiting hook", async () => {
+    const waiting = waitViaDaemon(pendingFor(42), 5, socketPath);
+    await Bun.sleep(50);
+
+    await server.dispatch(callbackUpdate(42, "approve"));
+
+    expect(await waiting).toEqual({ type: "approve", responder });
+    expect(server.pendingCount).toBe(0);
+  });
+
+  test("should keep what each waiting request is about", async () => {
+    const info = {
+      projectName: "api",
+      summary: "Bash: npm test",
+      requestedAt: 1,
+    };
+    const waiting = waitViaDaemon(pendingFor(9, { info }), 5, socketPath);
+    await Bun.sleep(50);
+
+    expect(server.pendingRequests.map((request) => request.info)).toEqual([
+      info,
+    ]);
+
+    await server.dispatch(callbackUpdate(9, "skip"));
+    await waiting;
+  });
+
+  test("should replay taps that arrive before the hook registers", async () => {
+    await server.dispatch(callbackUpdate(7, "deny"));
+
+    expect(await waitViaDaemon(pendingFor(7), 5, socketPath)).toEqual({
+      type: "deny",
+      responder,
+    });
+  });
+
+  test("should not hand one session's tap to another", async () => {
+    const first = waitViaDaemon(pendingFor(1), 5, socketPath);
+    const second = waitViaDaemon(pendingFor(2), 5, socketPath);
+    await Bun.sleep(50);
+
+    await server.dispatch(callbackUpdate(2, "approve"));
+    await server.dispatch(callbackUpdate(1, "deny"));
+
+    expect(await first).toEqual({ type: "deny", responder });
+    expect(await second).toEqual({ type: "approve", responder });
+  });
+
+  test("should tell apart equal message IDs in different chats", async () => {
+    const dm = waitViaDaemon(pendingFor(5, { chatId: "100" }), 5, socketPath);
+    const group = waitViaDaemon(
+      pendingFor(5, { chatId: "-200" }),
+      5,
+      socketPath
+    );
+    await Bun.sleep(50);
+
+    await server.dispatch(callbackUpdate(5, "deny", -200));
+    await server.dispatch(callbackUpdate(5, "approve", 100));
+
+    expect(await dm).toEqual({ type: "approve", responder });
+    expect(await group).toEqual({ type: "deny", responder });
+  });
+
+  test("should keep handling a batch after one update fails", async () => {
+    const failing = waitViaDaemon(
+      pendingFor(21, { chatId: "-1" }),
+      5,
+      socketPath
+    );
+    const waiting = waitViaDaemon(pendingFor(22), 5, socketPath);
+    await Bun.sleep(50);
+
+    // The fake API knows no message 21 in chat -1, so its edit fails
+    const broken = callbackUpdate(21, "approve", -1);
+    sentMessages.delete("-1:21");
+    const batches = [[], [broken, callbackUpdate(22, "approve")]];
+    globalThis.fetch = mock(async (url: string, init: RequestInit) => {
+      if (url.endsWith("/getUpdates")) {
+        await Bun.sleep(10);
+        return Response.json({ ok: true, result: batches.shift() ?? [] });
+      }
+      return fakeBotApi(url, init);
+    }) as unknown as typeof fetch;
+
+    const logError = spyOn(console, "error").mockImplementation(() => {
+      // Expected for the broken update
+    });
+    const running = server.run();
+    expect(await waiting).toEqual({ type: "approve", responder });
+    await server.stop();
+    await running;
+    await failing;
+
+    expect(logError).toHaveBeenCalledWith(
+      "Failed to handle update 21:",
+      "Telegram API error: Bad Request: message to edit not found"
+    );
+    logError.mockRestore();
+  });
+
+  test("should edit the buttons in the requester's chat", async () => {
+    const waiting = waitViaDaemon(
+      pendingFor(11, { chatId: "-100555" }),
+      5,
+      socketPath
+    );
+    await Bun.sleep(50);
+
+    await server.dispatch(callbackUpdate(11, "approve", -100_555));
+
+    expect(await waiting).toEqual({ type: "approve", responder });
+    expect(
+      apiCalls.find((call) => call.method === "editMessageReplyMarkup")?.body
+    ).toMatchObject({ chat_id: "-100555", message_id: 11 });
+  });
+
+  test("should keep approvals across waits on the same request", async () => {
+    const second = { id: 2, name: "Test" };
+    const pending = pendingFor(31, { quorum: 2 });
+    const beforeRemind = waitViaDaemon(pending, 0.3, socketPath);
+    await Bun.sleep(50);
+
+    await server.dispatch(callbackUpdate(31, "approve"));
+    expect(await beforeRemind).toEqual({ type: "timeout" });
+    expect(pending.approvers).toEqual([responder]);
+
+    // A reminder waits again with the same request
+    const afterRemind = waitViaDaemon(pending, 5, socketPath);
+    await Bun.sleep(50);
+
+    await server.dispatch(callbackUpdate(31, "approve", 987_654_321, 2));
+    expect(await afterRemind).toEqual({
+      type: "approve",
+      responder: second,
+      approvers: [responder, second],
+    });
+  });
+
+  test("should check taps against the requester's allowlist", async () => {
+    await server.stop();
+    server = new DaemonServer(
+      new TelegramClient({ ...mockConfig, allowedUserIds: [1] }),
+      socketPath
+    );
+    await server.start();
+
+    const waiting = waitViaDaemon(
+      pendingFor(12, { allowlist: { allowedUserIds: [2] } }),
+      5,
+      socketPath
+    );
+    await Bun.sleep(50);
+
+    await server.dispatch(callbackUpdate(12, "approve"));
+    expect(apiCalls.at(-1)).toMatchObject({
+      method: "answerCallbackQuery",
+      body: { text: "You are not authorized" },
+    });
+    expect(server.pendingCount).toBe(1);
+
+    await server.dispatch(callbackUpdate(12, "deny", 987_654_321, 2));
+    expect(await waiting).toEqual({
+      type: "deny",
+      responder: { id: 2, name: "Test" },
+    });
+  });
+});
+
+describe("waitViaDaemon", () => {
+  test("should return null when no daemon is running", async () => {
+    const socketPath = join(tmpdir(), `missing-${Date.now()}.sock`);
+
+    expect(await waitViaDaemon(pendingFor(1), 1, socketPath)).toBeNull();
+    expect(await isDaemonRunning(socketPath)).toBe(false);
+  });
+
+  test("should return null when the daemon answers garbage", async () => {
+    const socketPath = join(tmpdir(), `garbled-${Date.now()}.sock`);
+    const listener = Bun.listen({
+      unix: socketPath,
+      socket: {
+        data(socket) {
+          socket.write("{ not json\n");
+        },
+      },
+    });
+
+    try {
+      expect(await waitViaDaemon(pendingFor(1), 5, socketPath)).toBeNull();
+    } finally {
+      listener.stop(true);
+      await rm(socketPath, { force: true });
+    }
+  });
+});
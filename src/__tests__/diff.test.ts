@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test";
+import { countDiffChanges, createUnifiedDiff } from "../diff";
+
+describe("createUnifiedDiff", () => {
+  test("should mark removed and added lines", () => {
+    const diff = createUnifiedDiff("src/app.ts", [
+      {
+        oldString: "const a = 1;\nconst b = 2;\n",
+        newString: "const a = 1;\nconst b = 3;\n",
+      },
+    ]);
+
+    expect(diff).toBe(
+      [
+        "--- a/src/app.ts",
+        "+++ b/src/app.ts",
+        "@@ -1,2 +1,2 @@",
+        " const a = 1;",
+        "-const b = 2;",
+        "+const b = 3;",
+      ].join("\n")
+    );
+  });
+
+  test("should keep only nearby context lines", () => {
+    const lines = Array.from({ length: 20 }, (_, i) => `line ${i}`);
+    const changed = [...lines];
+    changed[10] = "changed";
+
+    const diff = createUnifiedDiff("file.txt", [
+      { oldString: lines.join("\n"), newString: changed.join("\n") },
+    ]);
+
+    expect(diff).toContain("@@ -8,7 +8,7 @@");
+    expect(diff).not.toContain("line 6");
+    expect(diff).toContain(" line 7");
+    expect(diff).toContain(" line 13");
+    expect(diff).not.toContain("line 14");
+  });
+
+  test("should emit one hunk per MultiEdit change", () => {
+    const diff = createUnifiedDiff("file.txt", [
+      { oldString: "a", newString: "b" },
+      { oldString: "c", newString: "d" },
+    ]);
+
+    expect(diff.match(/^@@/gm)).toHaveLength(2);
+  });
+});
+
+describe("countDiffChanges", () => {
+  test("should count added and removed lines without the header", () => {
+    const diff = createUnifiedDiff("file.txt", [
+      { oldString: "--flag\nkeep", newString: "keep\nnew\nnewer" },
+    ]);
+
+    expect(countDiffChanges(diff)).toEqual({ added: 2, removed: 1 });
+  });
+});
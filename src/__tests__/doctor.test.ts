@@ -0,0 +1,131 @@
+import { describe, expect, test } from "bun:test";
+import {
+  checkGit,
+  checkHooks,
+  checkPermissions,
+  checkWebhook,
+  formatCheckResults,
+} from "../doctor";
+import type { HooksStatus } from "../settings";
+
+function hooksStatus(commands: string[], error?: string): HooksStatus {
+  return {
+    scope: "user",
+    path: "/home/me/.claude/settings.json",
+    exists: true,
+    hooks: commands.map((command) => ({ event: "Stop", matcher: "", command })),
+    error,
+  };
+}
+
+const found = (program: string) => `/usr/local/bin/${program}`;
+
+describe("checkPermissions", () => {
+  test("passes when every file is private", () => {
+    expect(checkPermissions({ "/c/config.json": undefined }).status).toBe(
+      "pass"
+    );
+  });
+
+  test("warns with a chmod fix for shared files", () => {
+    const result = checkPermissions({
+      "/c/config.json": "644",
+      "/c/secrets.enc.json": undefined,
+    });
+
+    expect(result.status).toBe("warn");
+    expect(result.message).toContain("mode 644");
+    expect(result.fix).toBe("chmod 600 /c/config.json");
+  });
+});
+
+describe("checkWebhook", () => {
+  test("fails when a webhook would swallow updates", () => {
+    const result = checkWebhook({
+      url: "https://example.com/hook",
+      pending_update_count: 0,
+    });
+
+    expect(result.status).toBe("fail");
+    expect(result.fix).toContain("deleteWebhook");
+  });
+
+  test("passes without a webhook", () => {
+    expect(checkWebhook({ url: "", pending_update_count: 0 }).status).toBe(
+      "pass"
+    );
+  });
+});
+
+describe("checkHooks", () => {
+  test("passes when hook programs exist", () => {
+    const result = checkHooks(
+      [hooksStatus(["claude-telegram", "claude-telegram --event=stop"])],
+      found
+    );
+
+    expect(result).toMatchObject({
+      status: "pass",
+      message: "Installed in user (2)",
+    });
+  });
+
+  test("warns when nothing is installed", () => {
+    const result = checkHooks([hooksStatus([])], found);
+
+    expect(result.status).toBe("warn");
+    expect(result.fix).toBe("claude-telegram --hooks install");
+  });
+
+  test("fails when the binary isn't on PATH", () => {
+    const result = checkHooks(
+      [hooksStatus(["claude-telegram", "claude-telegram --event=stop"])],
+      () => null
+    );
+
+    expect(result.status).toBe("fail");
+    expect(result.message).toBe(
+      "Hook command not found on PATH: claude-telegram"
+    );
+  });
+
+  test("fails on a settings file with invalid JSON", () => {
+    const result = checkHooks([hooksStatus([], "Invalid JSON in x")], found);
+
+    expect(result).toMatchObject({
+      status: "fail",
+      message: "Invalid JSON in x",
+    });
+  });
+});
+
+describe("checkGit", () => {
+  test("warns when git is missing", () => {
+    expect(checkGit(null).status).toBe("warn");
+    expect(checkGit("/usr/bin/git").status).toBe("pass");
+  });
+});
+
+describe("formatCheckResults", () => {
+  test("lists each check with its fix and a summary", () => {
+    const output = formatCheckResults([
+      { name: "Config", status: "pass", message: "Loaded" },
+      {
+        name: "git",
+        status: "warn",
+        message: "git not found",
+        fix: "Install git",
+      },
+    ]);
+
+    expect(output).toBe(
+      [
+        "[pass] Config: Loaded",
+        "[warn] git: git not found",
+        "       Fix: Install git",
+        "",
+        "1 passed, 1 warning(s), 0 failed",
+      ].join("\n")
+    );
+  });
+});
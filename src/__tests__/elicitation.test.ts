@@ -0,0 +1,143 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildElicitationOutput,
+  coerceAnswer,
+  getChoices,
+  parseElicitation,
+} from "../elicitation";
+import type { ClaudeHookInput, ElicitationProperty } from "../types";
+
+function elicitation(
+  properties: Record<string, ElicitationProperty>
+): ClaudeHookInput {
+  return {
+    session_id: "s",
+    transcript_path: "/t",
+    cwd: "/p",
+    hook_event_name: "Elicitation",
+    mcp_server_name: "deploy",
+    message: "Which environment?",
+    requested_schema: { type: "object", properties },
+  };
+}
+
+describe("getChoices", () => {
+  test("labels enum values with enumNames", () => {
+    expect(
+      getChoices({
+        type: "string",
+        enum: ["prod", "staging"],
+        enumNames: ["Production"],
+      })
+    ).toEqual([
+      { label: "Production", value: "prod" },
+      { label: "staging", value: "staging" },
+    ]);
+  });
+
+  test("uses oneOf titles", () => {
+    expect(
+      getChoices({ type: "number", oneOf: [{ const: 1, title: "One" }] })
+    ).toEqual([{ label: "One", value: 1 }]);
+  });
+
+  test("offers Yes and No for booleans, nothing for free text", () => {
+    expect(getChoices({ type: "boolean" }).map((c) => c.label)).toEqual([
+      "Yes",
+      "No",
+    ]);
+    expect(getChoices({ type: "string" })).toEqual([]);
+  });
+});
+
+describe("parseElicitation", () => {
+  test("handles single-field forms and open questions", () => {
+    const request = parseElicitation(
+      elicitation({ env: { type: "string", enum: ["prod", "staging"] } })
+    );
+    expect(request.field?.name).toBe("env");
+    expect(request.choices).toHaveLength(2);
+    expect(request.supported).toBe(true);
+
+    const open = parseElicitation({
+      ...elicitation({}),
+      requested_schema: undefined,
+    });
+    expect(open).toEqual({
+      question: "Which environment?",
+      choices: [],
+      supported: true,
+    });
+  });
+
+  test("leaves multi-field forms to the terminal", () => {
+    const request = parseElicitation(
+      elicitation({ a: { type: "string" }, b: { type: "string" } })
+    );
+    expect(request.supported).toBe(false);
+  });
+});
+
+describe("coerceAnswer", () => {
+  const numberField = parseElicitation(
+    elicitation({ count: { type: "integer" } })
+  );
+  const flag = parseElicitation(elicitation({ ok: { type: "boolean" } }));
+
+  test("matches choice labels case-insensitively", () => {
+    expect(coerceAnswer(" no ", flag)).toBe(false);
+  });
+
+  test("converts to the field's type or rejects", () => {
+    expect(coerceAnswer("3", numberField)).toBe(3);
+    expect(coerceAnswer("three", numberField)).toBeUndefined();
+    expect(coerceAnswer("maybe", flag)).toBeUndefined();
+  });
+});
+
+describe("buildElicitationOutput", () => {
+  const request = parseElicitation(
+    elicitation({ env: { type: "string", enum: ["prod", "staging"] } })
+  );
+  const actionOf = (response: Parameters<typeof buildElicitationOutput>[0]) =>
+    buildElicitationOutput(response, request)?.hookSpecificOutput;
+
+  test("accepts a tapped choice with its value", () => {
+    expect(actionOf({ type: "choice", index: 1 })).toEqual({
+      hookEventName: "Elicitation",
+      action: "accept",
+      content: { env: "staging" },
+    });
+  });
+
+  test("accepts typed answers", () => {
+    expect(actionOf({ type: "text", content: "canary" })?.content).toEqual({
+      env: "canary",
+    });
+  });
+
+  test("declines on skip and leaves a timeout to the terminal", () => {
+    expect(actionOf({ type: "skip" })?.action).toBe("decline");
+    expect(buildElicitationOutput({ type: "timeout" }, request)).toBeNull();
+  });
+
+  test("only accepts open questions with a tap", () => {
+    const open = parseElicitation({
+      ...elicitation({}),
+      requested_schema: undefined,
+    });
+    const openActionOf = (
+      response: Parameters<typeof buildElicitationOutput>[0]
+    ) => buildElicitationOutput(response, open)?.hookSpecificOutput;
+
+    expect(openActionOf({ type: "choice", index: 0 })).toEqual({
+      hookEventName: "Elicitation",
+      action: "accept",
+      content: undefined,
+    });
+    // There is no field to put typed text in, so it must not count as accepted
+    expect(openActionOf({ type: "text", content: "canary" })?.action).toBe(
+      "cancel"
+    );
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, test } from "bun:test";
+import {
+  describeLifecycleEvent,
+  isEventEnabled,
+  LIFECYCLE_EVENTS,
+  parseEventList,
+} from "../events";
+import type { ClaudeHookInput, TelegramConfig } from "../types";
+
+const baseInput: ClaudeHookInput = {
+  session_id: "abc",
+  transcript_path: "/tmp/transcript.jsonl",
+  cwd: "/repo",
+  hook_event_name: "SessionEnd",
+};
+
+const config: TelegramConfig = {
+  botToken: "123:ABC",
+  chatId: "456",
+  timeout: 60,
+  projectPath: "/repo",
+};
+
+describe("parseEventList", () => {
+  test("reads comma-separated event names", () => {
+    expect(parseEventList("SubagentStop, PreCompact")).toEqual([
+      "SubagentStop",
+      "PreCompact",
+    ]);
+    expect(parseEventList("all")).toEqual(LIFECYCLE_EVENTS);
+    expect(parseEventList(undefined)).toEqual([]);
+  });
+
+  test("rejects unknown events", () => {
+    expect(() => parseEventList("SubagentStop,Stopp")).toThrow(
+      "Unknown event Stopp."
+    );
+  });
+});
+
+describe("isEventEnabled", () => {
+  test("is on unless the config turns it off", () => {
+    const muted = { ...config, events: { SessionStart: false } };
+
+    expect(isEventEnabled(config, "SessionStart")).toBe(true);
+    expect(isEventEnabled(muted, "SessionStart")).toBe(false);
+    expect(isEventEnabled(muted, "PreCompact")).toBe(true);
+  });
+});
+
+describe("describeLifecycleEvent", () => {
+  test("names the subagent that finished", () => {
+    expect(
+      describeLifecycleEvent("SubagentStop", {
+        ...baseInput,
+        agent_type: "code-reviewer",
+      })
+    ).toEqual({
+      eventType: "Subagent Finished",
+      message: "Subagent code-reviewer done.",
+    });
+    expect(describeLifecycleEvent("SubagentStop", baseInput).message).toBe(
+      "A subagent is done."
+    );
+  });
+
+  test("reports how long a resumed session has run", () => {
+    const resumed = { ...baseInput, source: "resume" as const };
+
+    expect(
+      describeLifecycleEvent("SessionStart", resumed, 90 * 60_000).message
+    ).toBe("Session resumed. Running for 1h 30 min.");
+    expect(
+      describeLifecycleEvent(
+        "SessionStart",
+        { ...baseInput, source: "startup" },
+        5000
+      ).message
+    ).toBe("New session started.");
+  });
+
+  test("reports session length and reason at the end", () => {
+    expect(
+      describeLifecycleEvent(
+        "SessionEnd",
+        { ...baseInput, reason: "prompt_input_exit" },
+        45_000
+      )
+    ).toEqual({
+      eventType: "Session Ended",
+      message: "Session ended after 45s (prompt input exit).",
+    });
+    expect(
+      describeLifecycleEvent("SessionEnd", { ...baseInput, reason: "other" })
+        .message
+    ).toBe("Session ended.");
+  });
+
+  test("warns before an automatic compaction", () => {
+    const auto = describeLifecycleEvent("PreCompact", {
+      ...baseInput,
+      trigger: "auto",
+    });
+    const manual = describeLifecycleEvent("PreCompact", {
+      ...baseInput,
+      trigger: "manual",
+      custom_instructions: "Keep the API notes",
+    });
+
+    expect(auto.eventType).toBe("Compacting Context");
+    expect(auto.message).toContain("The context window is full");
+    expect(manual.message).toBe(
+      "Compacting the conversation (/compact).\n\nInstructions: Keep the API notes"
+    );
+  });
+});
@@ -0,0 +1,152 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  claimAlert,
+  detectFailure,
+  loadAlertStates,
+  tailLines,
+} from "../failures";
+import type { ClaudeHookInput } from "../types";
+
+function bashRun(
+  command: string,
+  toolResponse: Record<string, unknown>
+): ClaudeHookInput {
+  return {
+    session_id: "s1",
+    transcript_path: "/tmp/t.jsonl",
+    cwd: "/repo",
+    hook_event_name: "PostToolUse",
+    tool_name: "Bash",
+    tool_input: { command },
+    tool_response: toolResponse,
+  };
+}
+
+describe("detectFailure", () => {
+  test("flags a non-zero exit code with the stderr tail", () => {
+    const failure = detectFailure(
+      bashRun("make build", {
+        stdout: "compiling...",
+        stderr: "error: missing semicolon\n",
+        exit_code: 2,
+      })
+    );
+
+    expect(failure).toEqual({
+      toolName: "Bash",
+      reason: "Exit code 2",
+      target: "make build",
+      output: "error: missing semicolon",
+    });
+  });
+
+  test("flags failing tests even when the exit code is missing", () => {
+    const failure = detectFailure(
+      bashRun("bun test", {
+        stdout: "12 pass\n 2 fail\nRan 14 tests",
+        stderr: "",
+      })
+    );
+
+    expect(failure?.reason).toBe("Tests failed");
+    expect(failure?.output).toContain("2 fail");
+  });
+
+  test("flags is_error and PostToolUseFailure inputs", () => {
+    expect(
+      detectFailure({
+        ...bashRun("", {}),
+        tool_name: "Edit",
+        tool_input: { file_path: "/repo/a.ts" },
+        tool_response: { is_error: true, content: "old_string not found" },
+      })
+    ).toMatchObject({
+      reason: "Tool returned an error",
+      target: "/repo/a.ts",
+      output: "old_string not found",
+    });
+    expect(
+      detectFailure({
+        ...bashRun("ls /nope", {}),
+        hook_event_name: "PostToolUseFailure",
+        error: "No such file or directory",
+      })
+    ).toMatchObject({
+      reason: "Tool failed",
+      output: "No such file or directory",
+    });
+  });
+
+  test("ignores successful runs", () => {
+    expect(
+      detectFailure(
+        bashRun("bun test", { stdout: "14 pass\n 0 fail", stderr: "" })
+      )
+    ).toBeNull();
+    expect(
+      detectFailure(
+        bashRun("grep -c x", { stdout: "2 failed logins", exit_code: 0 })
+      )
+    ).toBeNull();
+  });
+});
+
+describe("tailLines", () => {
+  test("keeps the last lines within the length limit", () => {
+    const text = Array.from({ length: 20 }, (_, i) => `line ${i}`).join("\n");
+
+    expect(tailLines(text, 2)).toBe("line 18\nline 19");
+    expect(tailLines("a".repeat(50), 5, 10)).toBe(`…${"a".repeat(10)}`);
+    expect(tailLines("  \n\n")).toBeUndefined();
+  });
+});
+
+describe("claimAlert", () => {
+  const path = join(tmpdir(), `claude-telegram-alerts-${Date.now()}.json`);
+
+  afterEach(async () => {
+    await rm(path, { force: true });
+  });
+
+  test("sends one alert per cooldown and counts the rest", async () => {
+    const start = 1_000_000;
+
+    expect(await claimAlert("s1", 60, path, start)).toEqual({
+      send: true,
+      suppressed: 0,
+    });
+    expect(await claimAlert("s1", 60, path, start + 10_000)).toEqual({
+      send: false,
+      suppressed: 1,
+    });
+    expect(await claimAlert("s1", 60, path, start + 20_000)).toEqual({
+      send: false,
+      suppressed: 2,
+    });
+    // Other sessions have their own cooldown
+    expect((await claimAlert("s2", 60, path, start + 20_000)).send).toBe(true);
+    expect(await claimAlert("s1", 60, path, start + 61_000)).toEqual({
+      send: true,
+      suppressed: 2,
+    });
+  });
+
+  test("alerts once when parallel hooks fail together", async () => {
+    const claims = await Promise.all(
+      Array.from({ length: 6 }, () => claimAlert("s1", 60, path, 1000))
+    );
+
+    expect(claims.filter((claim) => claim.send)).toHaveLength(1);
+    expect((await loadAlertStates(path)).s1?.suppressed).toBe(5);
+  });
+
+  test("forgets sessions after a day", async () => {
+    await claimAlert("old", 60, path, 0);
+    await claimAlert("new", 60, path, 2 * 24 * 60 * 60 * 1000);
+
+    expect(Object.keys(await loadAlertStates(path))).toEqual(["new"]);
+  });
+});
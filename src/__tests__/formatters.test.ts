@@ -0,0 +1,273 @@
+import { describe, expect, test } from "bun:test";
+import {
+  formatFailureAlert,
+  formatNotificationMessage,
+  formatOutcomeLine,
+  formatRequestSummary,
+  formatToolInput,
+  formatTurnSummary,
+  getToolInputAttachment,
+  registerToolFormatter,
+  truncateAtBreak,
+} from "../formatters";
+
+describe("formatToolInput", () => {
+  test("should render Bash command and description", () => {
+    const result = formatToolInput("Bash", {
+      command: "rm -rf node_modules && bun install",
+      description: "Reinstall dependencies",
+    });
+
+    expect(result).toContain("<i>Reinstall dependencies</i>");
+    expect(result).toContain(
+      '<pre><code class="language-bash">rm -rf node_modules &amp;&amp; bun install</code></pre>'
+    );
+  });
+
+  test("should render Edit path with a unified diff", () => {
+    const result = formatToolInput("Edit", {
+      file_path: "/repo/src/app.ts",
+      old_string: "const a = 1;",
+      new_string: "const a = 2;",
+    });
+
+    expect(result).toContain("<code>/repo/src/app.ts</code>");
+    expect(result).toContain('class="language-diff"');
+    expect(result).toContain("-const a = 1;");
+    expect(result).toContain("+const a = 2;");
+  });
+
+  test("should summarize long diffs and attach the full diff", () => {
+    const toolInput = {
+      file_path: "/repo/src/big.ts",
+      old_string: "x\n".repeat(10),
+      new_string: "y\n".repeat(2000),
+    };
+
+    const result = formatToolInput("Edit", toolInput);
+    const attachment = getToolInputAttachment("Edit", toolInput);
+
+    expect(result).toContain("+2000 −10 lines (full diff attached)");
+    expect(attachment?.filename).toBe("big.ts.diff");
+    expect(attachment?.content).toContain("+y");
+  });
+
+  test("should not attach short diffs", () => {
+    const attachment = getToolInputAttachment("Edit", {
+      file_path: "/repo/a.ts",
+      old_string: "a",
+      new_string: "b",
+    });
+
+    expect(attachment).toBeUndefined();
+  });
+
+  test("should preview only the first lines of Write content", () => {
+    const content = Array.from({ length: 50 }, (_, i) => `line ${i}`).join(
+      "\n"
+    );
+    const result = formatToolInput("Write", {
+      file_path: "/repo/big.txt",
+      content,
+    });
+
+    expect(result).toContain("50 lines");
+    expect(result).toContain("line 19");
+    expect(result).not.toContain("line 20");
+  });
+
+  test("should render Read path and line range", () => {
+    const result = formatToolInput("Read", {
+      file_path: "/repo/README.md",
+      offset: 10,
+      limit: 5,
+    });
+
+    expect(result).toContain("<code>/repo/README.md</code>");
+    expect(result).toContain("<b>Lines:</b> 10-14");
+  });
+
+  test("should fall back to JSON for unknown tools", () => {
+    const result = formatToolInput("WebFetch", { url: "https://x.dev/?a<b" });
+
+    expect(result).toContain('class="language-json"');
+    expect(result).toContain("https://x.dev/?a&lt;b");
+  });
+
+  test("should use registered formatters", () => {
+    registerToolFormatter("Custom", (input) => `custom:${String(input.id)}`);
+
+    expect(formatToolInput("Custom", { id: 7 })).toBe("custom:7");
+  });
+});
+
+describe("formatNotificationMessage with tool input", () => {
+  test("should append rendered tool input", () => {
+    const result = formatNotificationMessage({
+      projectName: "my-project",
+      eventType: "tool approval",
+      message: "",
+      toolName: "Bash",
+      toolInput: { command: "ls" },
+    });
+
+    expect(result).toContain("<b>Tool:</b> Bash");
+    expect(result).toContain('<code class="language-bash">ls</code>');
+    expect(result).not.toContain("<pre></pre>");
+  });
+});
+
+describe("formatOutcomeLine", () => {
+  const at = new Date(2026, 0, 1, 14, 2);
+  const bob = { id: 2, username: "bob", name: "Bob" };
+
+  test("should show who approved and when", () => {
+    expect(formatOutcomeLine({ type: "approve", responder: bob }, at)).toBe(
+      "✅ <b>Approved</b> by @bob at 14:02"
+    );
+  });
+
+  test("should list every approver of a quorum", () => {
+    const alice = { id: 1, name: "Alice" };
+    const line = formatOutcomeLine(
+      { type: "approve", responder: bob, approvers: [alice, bob] },
+      at
+    );
+
+    expect(line).toContain("by Alice, @bob at 14:02");
+  });
+
+  test("should name remembered approvals", () => {
+    const line = formatOutcomeLine(
+      { type: "approve", remember: "project", responder: bob },
+      at
+    );
+
+    expect(line).toContain("Always allowed in this project");
+  });
+
+  test("should escape replies", () => {
+    expect(
+      formatOutcomeLine({ type: "text", content: "use <b> tags" }, at)
+    ).toBe("💬 <b>Replied:</b> use &lt;b&gt; tags");
+  });
+
+  test("should show the chosen option", () => {
+    expect(
+      formatOutcomeLine(
+        { type: "choice", index: 0, label: "Production", responder: bob },
+        at
+      )
+    ).toBe("☑️ <b>Chose:</b> Production by @bob at 14:02");
+  });
+
+  test("should describe timeouts and prompts answered elsewhere", () => {
+    expect(formatOutcomeLine({ type: "timeout" }, at)).toContain("Timed out");
+    expect(formatOutcomeLine({ type: "elsewhere" }, at)).toContain(
+      "Resolved elsewhere"
+    );
+  });
+});
+
+describe("truncateAtBreak", () => {
+  test("leaves short text alone", () => {
+    expect(truncateAtBreak("Done.", 100)).toBe("Done.");
+  });
+
+  test("cuts at the last paragraph or word break", () => {
+    const text = `${"a".repeat(85)}\n\nSecond paragraph that is long`;
+    expect(truncateAtBreak(text, 100)).toBe(`${"a".repeat(85)} …`);
+    expect(truncateAtBreak(`${"word ".repeat(30)}`, 52)).toBe(
+      `${"word ".repeat(10).trimEnd()} …`
+    );
+  });
+
+  test("cuts mid-word when the only break is too early", () => {
+    const text = `short ${"x".repeat(200)}`;
+    expect(truncateAtBreak(text, 50)).toBe(`${text.slice(0, 50)} …`);
+  });
+});
+
+describe("formatTurnSummary", () => {
+  test("should show the last message, tool calls, files and duration", () => {
+    const result = formatTurnSummary(
+      {
+        lastMessage: "Fixed <Foo> & added tests",
+        toolCalls: 4,
+        editedFiles: ["/repo/src/app.ts", "/elsewhere/notes.md"],
+        durationMs: 95_000,
+      },
+      "/repo"
+    );
+
+    expect(result).toContain(
+      "<blockquote>Fixed &lt;Foo&gt; &amp; added tests</blockquote>"
+    );
+    expect(result).toContain("<b>Tool calls:</b> 4");
+    expect(result).toContain(
+      "<b>Files edited (2):</b> <code>src/app.ts</code>, <code>/elsewhere/notes.md</code>"
+    );
+    expect(result).toContain("<b>Duration:</b> 2 min");
+  });
+
+  test("should cap the file list", () => {
+    const editedFiles = Array.from({ length: 13 }, (_, i) => `/repo/${i}.ts`);
+    const result = formatTurnSummary({ toolCalls: 13, editedFiles }, "/repo");
+
+    expect(result).toContain("<code>9.ts</code> and 3 more");
+    expect(result).not.toContain("<blockquote>");
+    expect(result).not.toContain("Duration");
+  });
+
+  test("should say when no files were edited", () => {
+    expect(formatTurnSummary({ toolCalls: 0, editedFiles: [] }, "/")).toContain(
+      "<b>Files edited:</b> none"
+    );
+  });
+});
+
+describe("formatFailureAlert", () => {
+  test("should show the reason, command, output and held-back count", () => {
+    const result = formatFailureAlert(
+      {
+        toolName: "Bash",
+        reason: "Exit code 1",
+        target: "bun test",
+        output: "expect(a).toBe(b) <failed>",
+      },
+      3
+    );
+
+    expect(result).toContain("⚠️ <b>Exit code 1</b>");
+    expect(result).toContain("<code>bun test</code>");
+    expect(result).toContain("<pre>expect(a).toBe(b) &lt;failed&gt;</pre>");
+    expect(result).toContain("3 more failure(s) since the last alert");
+  });
+
+  test("should leave out what's missing", () => {
+    expect(
+      formatFailureAlert({ toolName: "Edit", reason: "Tool failed" }, 0)
+    ).toBe("⚠️ <b>Tool failed</b>");
+  });
+});
+
+describe("formatRequestSummary", () => {
+  test("should name the tool and what it acts on", () => {
+    expect(
+      formatRequestSummary({
+        projectName: "p",
+        eventType: "tool approval",
+        message: "",
+        toolName: "Bash",
+        toolInput: { command: "npm test" },
+      })
+    ).toBe("Bash: npm test");
+    expect(
+      formatRequestSummary({
+        projectName: "p",
+        eventType: "question",
+        message: "Pick one",
+      })
+    ).toBe("question");
+  });
+});
@@ -0,0 +1,188 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  addGrant,
+  findGrant,
+  getCommandPrefix,
+  isGrantable,
+  loadGrants,
+  revokeGrant,
+} from "../grants";
+import type { ClaudeHookInput } from "../types";
+
+function bashInput(
+  command: string,
+  overrides: Partial<ClaudeHookInput> = {}
+): ClaudeHookInput {
+  return {
+    session_id: "session-1",
+    transcript_path: "/tmp/transcript.jsonl",
+    cwd: "/repo",
+    hook_event_name: "PreToolUse",
+    tool_name: "Bash",
+    tool_input: { command },
+    ...overrides,
+  };
+}
+
+describe("getCommandPrefix", () => {
+  test("should keep the first two words", () => {
+    expect(getCommandPrefix("npm run test -- --watch")).toBe("npm run");
+  });
+
+  test("should normalize whitespace and env assignments", () => {
+    expect(getCommandPrefix("  NODE_ENV=test   bun   test  ")).toBe("bun test");
+  });
+
+  test("should refuse compound commands", () => {
+    expect(getCommandPrefix("git status && rm -rf /")).toBeUndefined();
+    expect(getCommandPrefix("ls | sh")).toBeUndefined();
+    expect(getCommandPrefix("echo $(whoami)")).toBeUndefined();
+  });
+
+  test("should refuse any shell metacharacter", () => {
+    for (const command of [
+      "npm run build & rm -rf ~",
+      "diff <(cat a) b",
+      "tee >(sh) < a",
+      "npm run build > ~/.bashrc",
+      "npm run build\rrm -rf ~",
+      "npm run $HOME",
+      "npm run \\",
+      "npm run (build)",
+    ]) {
+      expect(getCommandPrefix(command)).toBeUndefined();
+    }
+  });
+
+  test("should refuse destructive prefixes", () => {
+    for (const command of [
+      "rm -rf build",
+      "/bin/rm -rf build",
+      "sudo npm install",
+      "xargs rm",
+      "find . -delete",
+      "mkfs.ext4 /dev/sda1",
+      "git push --force",
+      "git reset --hard",
+      "NODE_ENV=x rm -rf build",
+      "git -C /tmp push --force origin main",
+      "timeout 5 rm -rf x",
+      "nice rm -rf x",
+      "command rm -rf /",
+      "nohup npm test",
+      "stdbuf -oL npm test",
+      "python3 -c 'import os'",
+      "node -e 'process.exit(1)'",
+    ]) {
+      expect(getCommandPrefix(command)).toBeUndefined();
+    }
+    expect(getCommandPrefix("git status")).toBe("git status");
+  });
+});
+
+describe("isGrantable", () => {
+  test("should require a tool name and a simple Bash command", () => {
+    expect(isGrantable(bashInput("git commit -m x"))).toBe(true);
+    expect(isGrantable(bashInput("a; b"))).toBe(false);
+    expect(isGrantable(bashInput("rm -rf x"))).toBe(false);
+    expect(isGrantable(bashInput("ls", { tool_name: undefined }))).toBe(false);
+  });
+});
+
+describe("grant storage", () => {
+  const testDir = join(tmpdir(), `claude-telegram-grants-${Date.now()}`);
+  const grantsPath = join(testDir, "grants.json");
+
+  beforeEach(async () => {
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  test("should match session grants only in the same session", async () => {
+    await addGrant("session", bashInput("bun test src"), grantsPath);
+    const grants = await loadGrants(grantsPath);
+
+    expect(findGrant(grants, bashInput("bun test other"))).toBeDefined();
+    expect(
+      findGrant(grants, bashInput("bun test", { session_id: "session-2" }))
+    ).toBeUndefined();
+    expect(findGrant(grants, bashInput("bun install"))).toBeUndefined();
+  });
+
+  test("should match project grants across sessions in the same cwd", async () => {
+    await addGrant(
+      "project",
+      {
+        ...bashInput(""),
+        tool_name: "Edit",
+        tool_input: { file_path: "/repo/a.ts" },
+      },
+      grantsPath
+    );
+    const grants = await loadGrants(grantsPath);
+    const edit = (overrides: Partial<ClaudeHookInput>) => ({
+      ...bashInput(""),
+      tool_name: "Edit",
+      tool_input: { file_path: "/repo/b.ts" },
+      ...overrides,
+    });
+
+    expect(findGrant(grants, edit({ session_id: "other" }))).toBeDefined();
+    expect(findGrant(grants, edit({ cwd: "/elsewhere" }))).toBeUndefined();
+  });
+
+  test("should not match compound commands", async () => {
+    await addGrant("session", bashInput("git status"), grantsPath);
+    const grants = await loadGrants(grantsPath);
+
+    expect(
+      findGrant(grants, bashInput("git status; rm -rf ~"))
+    ).toBeUndefined();
+  });
+
+  test("should not match backgrounded or redirected commands", async () => {
+    await addGrant("session", bashInput("npm run test"), grantsPath);
+    const grants = await loadGrants(grantsPath);
+
+    expect(
+      findGrant(grants, bashInput("npm run build & rm -rf ~"))
+    ).toBeUndefined();
+    expect(
+      findGrant(grants, bashInput("npm run build > ~/.ssh/authorized_keys"))
+    ).toBeUndefined();
+    expect(findGrant(grants, bashInput("npm run build"))).toBeDefined();
+  });
+
+  test("should not grant destructive commands", async () => {
+    expect(await addGrant("session", bashInput("rm -rf x"), grantsPath)).toBe(
+      null
+    );
+    expect(await loadGrants(grantsPath)).toEqual([]);
+  });
+
+  test("should revoke grants by id or all at once", async () => {
+    const first = await addGrant("session", bashInput("ls src"), grantsPath);
+    await addGrant("project", bashInput("git diff"), grantsPath);
+
+    expect(await revokeGrant(first?.id ?? "", grantsPath)).toBe(1);
+    expect(await loadGrants(grantsPath)).toHaveLength(1);
+    expect(await revokeGrant("all", grantsPath)).toBe(1);
+    expect(await loadGrants(grantsPath)).toHaveLength(0);
+  });
+
+  test("should keep every grant added at the same time", async () => {
+    await Promise.all([
+      addGrant("session", bashInput("bun test"), grantsPath),
+      addGrant("session", bashInput("npm run lint"), grantsPath),
+      addGrant("project", bashInput("git diff"), grantsPath),
+    ]);
+
+    expect(await loadGrants(grantsPath)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, test } from "bun:test";
+import { buildPreToolUseOutput } from "../hook-output";
+
+describe("buildPreToolUseOutput", () => {
+  test("should allow on approve", () => {
+    const output = buildPreToolUseOutput({ type: "approve" });
+
+    expect(output.hookSpecificOutput?.hookEventName).toBe("PreToolUse");
+    expect(output.hookSpecificOutput?.permissionDecision).toBe("allow");
+  });
+
+  test("should deny on deny", () => {
+    const output = buildPreToolUseOutput({ type: "deny" });
+
+    expect(output.hookSpecificOutput?.permissionDecision).toBe("deny");
+  });
+
+  test("should use reply text as the deny reason", () => {
+    const output = buildPreToolUseOutput({
+      type: "text",
+      content: "Use bun instead of npm",
+    });
+
+    expect(output.hookSpecificOutput?.permissionDecision).toBe("deny");
+    expect(output.hookSpecificOutput?.permissionDecisionReason).toBe(
+      "Use bun instead of npm"
+    );
+  });
+
+  test("should fall back to Claude Code prompt on skip", () => {
+    const output = buildPreToolUseOutput({ type: "skip" });
+
+    expect(output.hookSpecificOutput?.permissionDecision).toBe("ask");
+  });
+
+  test("should deny on timeout", () => {
+    const output = buildPreToolUseOutput({ type: "timeout" });
+
+    expect(output.hookSpecificOutput?.permissionDecision).toBe("deny");
+    expect(output.hookSpecificOutput?.permissionDecisionReason).toContain(
+      "Timeout"
+    );
+  });
+
+  test("should allow when the timeout policy allows", () => {
+    const output = buildPreToolUseOutput({ type: "timeout", allowed: true });
+
+    expect(output.hookSpecificOutput?.permissionDecision).toBe("allow");
+  });
+});
@@ -1,41 +1,7 @@
 import { describe, expect, test } from "bun:test";
+import { escapeHtml, formatNotificationMessage } from "../formatters";
 import type { ClaudeHookInput, NotificationContext } from "../types";
 
-// Helper functions extracted for testing
-function escapeHtml(text: string): string {
-  return text
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;");
-}
-
-function formatNotificationMessage(context: NotificationContext): string {
-  let msg = "<b>Claude Code</b>\n\n";
-
-  msg += `<b>Project:</b> ${escapeHtml(context.projectName)}`;
-  if (context.gitBranch) {
-    msg += ` (<code>${escapeHtml(context.gitBranch)}</code>)`;
-  }
-  msg += "\n";
-
-  if (context.toolName) {
-    msg += `<b>Tool:</b> ${escapeHtml(context.toolName)}\n`;
-  }
-
-  msg += `<b>Event:</b> ${escapeHtml(context.eventType)}\n\n`;
-
-  if (context.message) {
-    const maxLen = 2000;
-    let messageText = context.message;
-    if (messageText.length > maxLen) {
-      messageText = `${messageText.substring(0, maxLen)}...`;
-    }
-    msg += `<pre>${escapeHtml(messageText)}</pre>`;
-  }
-
-  return msg;
-}
-
 describe("escapeHtml", () => {
   test("should escape ampersand", () => {
     expect(escapeHtml("foo & bar")).toBe("foo &amp; bar");
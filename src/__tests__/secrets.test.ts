@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { rm, stat } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  decryptSecret,
+  encryptSecret,
+  resolveSecretRef,
+  writePrivateFile,
+} from "../secrets";
+
+describe("encrypted secrets", () => {
+  test("should round-trip with the right passphrase", () => {
+    const secret = encryptSecret("123:ABC", "correct horse");
+
+    expect(secret.data).not.toContain("123:ABC");
+    expect(decryptSecret(secret, "correct horse")).toBe("123:ABC");
+  });
+
+  test("should reject the wrong passphrase", () => {
+    const secret = encryptSecret("123:ABC", "correct horse");
+
+    expect(() => decryptSecret(secret, "battery staple")).toThrow(
+      "Wrong CLAUDE_TELEGRAM_PASSPHRASE"
+    );
+  });
+});
+
+describe("resolveSecretRef", () => {
+  test("should reject unknown backends", async () => {
+    await expect(resolveSecretRef("vault:default")).rejects.toThrow(
+      'Invalid secret reference "vault:default"'
+    );
+  });
+});
+
+describe("writePrivateFile", () => {
+  const testDir = join(tmpdir(), `claude-telegram-secrets-${Date.now()}`);
+  const path = join(testDir, "config.json");
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  test("should create the file with mode 600", async () => {
+    await writePrivateFile(path, "{}");
+
+    expect((await stat(path)).mode % 0o1000).toBe(0o600);
+  });
+
+  test("should tighten an existing file", async () => {
+    await Bun.write(path, "{}");
+    await writePrivateFile(path, "{}");
+
+    expect((await stat(path)).mode % 0o1000).toBe(0o600);
+  });
+});
@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { getActiveSessions, loadSessions, trackSession } from "../sessions";
+import type { ClaudeHookInput } from "../types";
+
+const input: ClaudeHookInput = {
+  session_id: "session-a",
+  transcript_path: "/tmp/t.jsonl",
+  cwd: "/repo/api",
+  hook_event_name: "PreToolUse",
+};
+
+describe("trackSession", () => {
+  const path = join(tmpdir(), `claude-telegram-sessions-${Date.now()}.json`);
+
+  afterEach(async () => {
+    await rm(path, { force: true });
+  });
+
+  test("records a session and refreshes it", async () => {
+    await trackSession(input, "api", "main", path, 1000);
+    await trackSession(input, "api", "main", path, 31_000);
+    await trackSession(input, "api", "main", path, 120_000);
+
+    expect(await loadSessions(path)).toEqual([
+      {
+        sessionId: "session-a",
+        projectName: "api",
+        gitBranch: "main",
+        cwd: "/repo/api",
+        startedAt: 1000,
+        lastSeenAt: 120_000,
+      },
+    ]);
+  });
+
+  test("skips rewrites within a minute unless the branch changed", async () => {
+    await trackSession(input, "api", "main", path, 1000);
+    await trackSession(input, "api", "main", path, 31_000);
+    expect((await loadSessions(path))[0]?.lastSeenAt).toBe(1000);
+
+    await trackSession(input, "api", "feature", path, 32_000);
+    expect((await loadSessions(path))[0]).toMatchObject({
+      gitBranch: "feature",
+      lastSeenAt: 32_000,
+    });
+  });
+
+  test("keeps every session when hooks run in parallel", async () => {
+    await Promise.all(
+      Array.from({ length: 8 }, (_, index) =>
+        trackSession(
+          { ...input, session_id: `session-${index}` },
+          "api",
+          "main",
+          path,
+          1000
+        )
+      )
+    );
+
+    expect(await loadSessions(path)).toHaveLength(8);
+  });
+
+  test("forgets a session on SessionEnd", async () => {
+    await trackSession(input, "api", "main", path, 1000);
+    await trackSession(
+      { ...input, hook_event_name: "SessionEnd" },
+      "api",
+      "main",
+      path,
+      2000
+    );
+
+    expect(await loadSessions(path)).toEqual([]);
+  });
+});
+
+describe("getActiveSessions", () => {
+  test("drops sessions idle for half a day", () => {
+    const session = {
+      sessionId: "s",
+      projectName: "p",
+      cwd: "/p",
+      startedAt: 0,
+      lastSeenAt: 0,
+    };
+
+    expect(getActiveSessions([session], 60_000)).toEqual([session]);
+    expect(getActiveSessions([session], 13 * 60 * 60 * 1000)).toEqual([]);
+  });
+});
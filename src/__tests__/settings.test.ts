@@ -0,0 +1,267 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  buildHookEntries,
+  getHookTimeout,
+  getInstalledChoices,
+  getSettingsPath,
+  type HooksSettings,
+  installHooks,
+  isOwnCommand,
+  listOwnHooks,
+  mergeHooks,
+  removeOwnHooks,
+  uninstallHooks,
+} from "../settings";
+
+const userHooks: HooksSettings = {
+  Notification: [
+    {
+      matcher: "",
+      hooks: [{ type: "command", command: "notify-send 'Claude'" }],
+    },
+  ],
+  Stop: [
+    {
+      matcher: "",
+      hooks: [
+        { type: "command", command: "say done" },
+        { type: "command", command: "claude-telegram --event=stop" },
+      ],
+    },
+  ],
+};
+
+describe("isOwnCommand", () => {
+  test("matches the binary by name or path", () => {
+    expect(isOwnCommand("claude-telegram")).toBe(true);
+    expect(isOwnCommand("claude-telegram --event=stop")).toBe(true);
+    expect(isOwnCommand("/usr/local/bin/claude-telegram")).toBe(true);
+  });
+
+  test("ignores other commands mentioning it", () => {
+    expect(isOwnCommand("echo claude-telegram")).toBe(false);
+    expect(isOwnCommand("claude-telegram-fork")).toBe(false);
+  });
+});
+
+describe("mergeHooks", () => {
+  test("keeps the user's hooks and appends ours", () => {
+    const merged = mergeHooks(userHooks, buildHookEntries());
+
+    expect(merged.Notification).toHaveLength(2);
+    expect(merged.Notification?.[0]?.hooks[0]?.command).toBe(
+      "notify-send 'Claude'"
+    );
+    expect(merged.Stop?.[0]?.hooks).toEqual([
+      { type: "command", command: "say done" },
+    ]);
+    expect(merged.Stop?.[1]?.hooks[0]?.command).toBe(
+      "claude-telegram --event=stop"
+    );
+  });
+
+  test("is idempotent", () => {
+    const once = mergeHooks(userHooks, buildHookEntries());
+    const twice = mergeHooks(once, buildHookEntries());
+
+    expect(twice).toEqual(once);
+  });
+
+  test("switching approval hooks replaces the old one", () => {
+    const notification = mergeHooks({}, buildHookEntries("notification"));
+    const preToolUse = mergeHooks(
+      notification,
+      buildHookEntries("pre-tool-use")
+    );
+
+    expect(preToolUse.Notification).toBeUndefined();
+    expect(preToolUse.PreToolUse).toHaveLength(1);
+    expect(preToolUse.Elicitation).toHaveLength(1);
+  });
+});
+
+describe("buildHookEntries", () => {
+  test("adds a hook per lifecycle event", () => {
+    const entries = buildHookEntries("notification", [
+      "SubagentStop",
+      "PreCompact",
+    ]);
+
+    expect(Object.keys(entries)).toEqual([
+      "Notification",
+      "Elicitation",
+      "Stop",
+      "SubagentStop",
+      "PreCompact",
+    ]);
+    expect(entries.PreCompact?.[0]?.hooks[0]?.command).toBe("claude-telegram");
+  });
+
+  test("installs PostToolUseFailure together with PostToolUse", () => {
+    const entries = buildHookEntries("notification", ["PostToolUse"]);
+
+    expect(Object.keys(entries)).toEqual([
+      "Notification",
+      "Elicitation",
+      "Stop",
+      "PostToolUse",
+      "PostToolUseFailure",
+    ]);
+    expect(getInstalledChoices(entries).events).toEqual(["PostToolUse"]);
+  });
+
+  test("dropping an event from the install removes its hook", () => {
+    const withEvents = mergeHooks(
+      userHooks,
+      buildHookEntries("notification", ["SessionStart"])
+    );
+    const without = mergeHooks(withEvents, buildHookEntries());
+
+    expect(without.SessionStart).toBeUndefined();
+    expect(without.Notification).toHaveLength(2);
+  });
+});
+
+describe("getHookTimeout", () => {
+  const status = (
+    scope: "user" | "project",
+    hooks: { event: string; timeout?: number }[]
+  ) => ({
+    scope,
+    path: `/${scope}/settings.json`,
+    exists: true,
+    hooks: hooks.map((hook) => ({
+      ...hook,
+      matcher: "",
+      command: "claude-telegram --event=stop",
+    })),
+  });
+
+  test("should use the shortest installed timeout for the event", () => {
+    const statuses = [
+      status("user", [{ event: "Stop", timeout: 3600 }]),
+      status("project", [
+        { event: "Stop", timeout: 30 },
+        { event: "PreToolUse", timeout: 10 },
+      ]),
+    ];
+
+    expect(getHookTimeout(statuses, "Stop")).toBe(30);
+  });
+
+  test("should fall back to Claude Code's default without a timeout", () => {
+    expect(getHookTimeout([status("user", [{ event: "Stop" }])], "Stop")).toBe(
+      60
+    );
+    expect(getHookTimeout([status("user", [])], "Stop")).toBeUndefined();
+  });
+});
+
+describe("removeOwnHooks", () => {
+  test("removes only our entries and drops empty events", () => {
+    const removed = removeOwnHooks(mergeHooks(userHooks, buildHookEntries()));
+
+    expect(listOwnHooks(removed)).toEqual([]);
+    expect(removed.Notification?.[0]?.hooks[0]?.command).toBe(
+      "notify-send 'Claude'"
+    );
+    expect(removed.Stop?.[0]?.hooks).toHaveLength(1);
+    expect(removeOwnHooks(buildHookEntries())).toEqual({});
+  });
+});
+
+describe("settings files", () => {
+  const testDir = join(tmpdir(), `claude-telegram-settings-${Date.now()}`);
+  const path = join(testDir, ".claude", "settings.json");
+
+  beforeEach(async () => {
+    await mkdir(join(testDir, ".claude"), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  test("resolves project and local settings paths", () => {
+    expect(getSettingsPath("project", testDir)).toBe(path);
+    expect(getSettingsPath("local", testDir)).toBe(
+      join(testDir, ".claude", "settings.local.json")
+    );
+  });
+
+  test("creates a missing file without a backup", async () => {
+    const result = await installHooks(path);
+
+    expect(result).toEqual({
+      path,
+      changed: true,
+      backupPath: undefined,
+      approvalHook: "notification",
+      events: [],
+    });
+    expect(listOwnHooks((await Bun.file(path).json()).hooks)).toHaveLength(3);
+  });
+
+  test("backs up before writing and keeps other settings", async () => {
+    await Bun.write(
+      path,
+      JSON.stringify({ model: "opus", hooks: userHooks }, null, 2)
+    );
+
+    const result = await installHooks(path, "pre-tool-use");
+    const settings = await Bun.file(path).json();
+
+    expect(result.backupPath).toBeDefined();
+    expect((await Bun.file(result.backupPath ?? "").json()).hooks).toEqual(
+      userHooks
+    );
+    expect(settings.model).toBe("opus");
+    expect(settings.hooks.Notification).toEqual(userHooks.Notification);
+  });
+
+  test("doesn't rewrite a file that's already up to date", async () => {
+    await installHooks(path);
+    const result = await installHooks(path);
+
+    expect(result.changed).toBe(false);
+    const files = await readdir(join(testDir, ".claude"));
+    expect(files.filter((name) => name.endsWith(".bak"))).toEqual([]);
+  });
+
+  test("keeps the installed choices unless told otherwise", async () => {
+    await installHooks(path, "pre-tool-use", ["SessionStart", "PreCompact"]);
+
+    const result = await installHooks(path);
+    expect(result).toMatchObject({
+      changed: false,
+      approvalHook: "pre-tool-use",
+      events: ["SessionStart", "PreCompact"],
+    });
+
+    await installHooks(path, undefined, []);
+    expect(getInstalledChoices((await Bun.file(path).json()).hooks)).toEqual({
+      approvalHook: "pre-tool-use",
+      events: [],
+    });
+  });
+
+  test("uninstall leaves the user's hooks", async () => {
+    await Bun.write(path, JSON.stringify({ hooks: userHooks }));
+
+    await uninstallHooks(path);
+    const settings = await Bun.file(path).json();
+
+    expect(settings.hooks.Notification).toEqual(userHooks.Notification);
+    expect(listOwnHooks(settings.hooks)).toEqual([]);
+  });
+
+  test("refuses to overwrite invalid JSON", async () => {
+    await Bun.write(path, "{ not json");
+
+    await expect(installHooks(path)).rejects.toThrow(`Invalid JSON in ${path}`);
+    expect(await Bun.file(path).text()).toBe("{ not json");
+  });
+});
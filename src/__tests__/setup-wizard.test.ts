@@ -0,0 +1,111 @@
+import { describe, expect, spyOn, test } from "bun:test";
+import { parseSetupOptions, runSetupWizard } from "../setup-wizard";
+
+describe("parseSetupOptions", () => {
+  test("reads answers from flags", () => {
+    const options = parseSetupOptions(
+      [
+        "--setup",
+        "--token",
+        "123:abc",
+        "--chat-id",
+        "42",
+        "--token-storage",
+        "file",
+        "--hooks",
+        "--approval-hook",
+        "pre-tool-use",
+        "--yes",
+      ],
+      {}
+    );
+
+    expect(options).toMatchObject({
+      token: "123:abc",
+      chatId: "42",
+      tokenStorage: "file",
+      hooks: true,
+      approvalHook: "pre-tool-use",
+      yes: true,
+      nonInteractive: false,
+      json: false,
+      test: true,
+    });
+  });
+
+  test("falls back to env vars, with flags taking precedence", () => {
+    const options = parseSetupOptions(["--chat-id", "7"], {
+      TELEGRAM_BOT_TOKEN: "env:token",
+      TELEGRAM_CHAT_ID: "99",
+      CLAUDE_TELEGRAM_TOKEN_STORAGE: "pass",
+    });
+
+    expect(options.token).toBe("env:token");
+    expect(options.chatId).toBe("7");
+    expect(options.tokenStorage).toBe("pass");
+  });
+
+  test("reads lifecycle events to install", () => {
+    expect(
+      parseSetupOptions(["--events", "SessionStart,SessionEnd"], {}).events
+    ).toEqual(["SessionStart", "SessionEnd"]);
+    expect(() => parseSetupOptions(["--events", "Start"], {})).toThrow(
+      "Unknown event Start."
+    );
+  });
+
+  test("leaves unanswered steps unset", () => {
+    const options = parseSetupOptions([], {});
+
+    expect(options.token).toBeUndefined();
+    expect(options.chatId).toBeUndefined();
+    expect(options.hooks).toBeUndefined();
+    expect(options.events).toBeUndefined();
+    expect(options.yes).toBe(false);
+  });
+
+  test("--non-interactive implies JSON output", () => {
+    expect(parseSetupOptions(["--non-interactive"], {}).json).toBe(true);
+    expect(parseSetupOptions(["--json"], {}).nonInteractive).toBe(false);
+  });
+
+  test("--no-hooks and --no-test opt out", () => {
+    const options = parseSetupOptions(["--no-hooks", "--no-test"], {});
+
+    expect(options.hooks).toBe(false);
+    expect(options.test).toBe(false);
+  });
+
+  test("rejects unknown choices", () => {
+    expect(() => parseSetupOptions(["--token-storage", "vault"], {})).toThrow(
+      "--token-storage must be one of secret-tool, pass, file, config."
+    );
+    expect(() => parseSetupOptions(["--approval-hook", "stop"], {})).toThrow(
+      "--approval-hook must be one of notification, pre-tool-use."
+    );
+  });
+});
+
+describe("runSetupWizard", () => {
+  test("reports a bad flag as JSON when non-interactive", async () => {
+    const output = spyOn(console, "log").mockImplementation(() => {
+      // Captured below
+    });
+    const exit = spyOn(process, "exit").mockImplementation(
+      (() => undefined) as unknown as typeof process.exit
+    );
+
+    try {
+      await runSetupWizard(["--non-interactive", "--events", "bogus"], {});
+
+      expect(JSON.parse(String(output.mock.calls[0]?.[0]))).toMatchObject({
+        ok: false,
+        error: expect.stringContaining("Unknown event bogus"),
+      });
+      expect(exit).toHaveBeenCalledWith(1);
+    } finally {
+      output.mockRestore();
+      exit.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { readdir, rm, utimes } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { withFileLock, writeFileAtomic } from "../state-file";
+
+describe("withFileLock", () => {
+  const dir = join(tmpdir(), `claude-telegram-state-${Date.now()}`);
+  const path = join(dir, "state.json");
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("runs updates one at a time", async () => {
+    const order: string[] = [];
+    const update = (name: string) =>
+      withFileLock(path, async () => {
+        order.push(`${name} start`);
+        await Bun.sleep(20);
+        order.push(`${name} end`);
+      });
+
+    await Promise.all([update("a"), update("b")]);
+
+    // Either may go first, but neither starts before the other ends
+    const first = order[0]?.split(" ")[0];
+    const second = first === "a" ? "b" : "a";
+    expect(order).toEqual([
+      `${first} start`,
+      `${first} end`,
+      `${second} start`,
+      `${second} end`,
+    ]);
+    expect(await readdir(dir)).toEqual([]);
+  });
+
+  test("takes over a lock left by a dead process", async () => {
+    await writeFileAtomic(`${path}.lock`, "");
+    const old = new Date(Date.now() - 60_000);
+    await utimes(`${path}.lock`, old, old);
+
+    expect(await withFileLock(path, () => Promise.resolve("done"))).toBe(
+      "done"
+    );
+  });
+});
+
+describe("writeFileAtomic", () => {
+  const dir = join(tmpdir(), `claude-telegram-atomic-${Date.now()}`);
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("replaces the file without leaving temp files", async () => {
+    const path = join(dir, "state.json");
+    await writeFileAtomic(path, "one");
+    await writeFileAtomic(path, "two");
+
+    expect(await Bun.file(path).text()).toBe("two");
+    expect(await readdir(dir)).toEqual(["state.json"]);
+  });
+});
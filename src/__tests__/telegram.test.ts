@@ -1,6 +1,18 @@
 import { describe, expect, mock, test } from "bun:test";
-import { createApprovalKeyboard, TelegramClient } from "../telegram";
-import type { TelegramConfig } from "../types";
+import {
+  createApprovalKeyboard,
+  createChoiceKeyboard,
+  createContinueKeyboard,
+  createQuorumKeyboard,
+  createReplyKeyboard,
+  TelegramClient,
+} from "../telegram";
+import type {
+  PendingRequest,
+  TelegramConfig,
+  TelegramUpdate,
+  TelegramUser,
+} from "../types";
 
 const mockConfig: TelegramConfig = {
   botToken: "123456789:ABCdefGHIjklMNOpqrsTUVwxyz",
@@ -55,6 +67,51 @@ describe("TelegramClient", () => {
     globalThis.fetch = originalFetch;
   });
 
+  test("editMessageText should replace text and keep HTML parsing", async () => {
+    const client = new TelegramClient(mockConfig);
+
+    let capturedUrl = "";
+    let capturedBody: unknown = null;
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = mock((url: string, options: RequestInit) => {
+      capturedUrl = url;
+      capturedBody = JSON.parse(options.body as string);
+      return Promise.resolve(Response.json({ ok: true, result: true }));
+    }) as unknown as typeof fetch;
+
+    await client.editMessageText(42, "Done");
+
+    expect(capturedUrl).toEndWith("/editMessageText");
+    expect(capturedBody).toMatchObject({
+      chat_id: "987654321",
+      message_id: 42,
+      text: "Done",
+      parse_mode: "HTML",
+    });
+
+    globalThis.fetch = originalFetch;
+  });
+
+  test("sendChatAction should target the configured chat", async () => {
+    const client = new TelegramClient(mockConfig);
+
+    let capturedUrl = "";
+    let capturedBody: unknown = null;
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = mock((url: string, options: RequestInit) => {
+      capturedUrl = url;
+      capturedBody = JSON.parse(options.body as string);
+      return Promise.resolve(Response.json({ ok: true, result: true }));
+    }) as unknown as typeof fetch;
+
+    await client.sendChatAction();
+
+    expect(capturedUrl).toEndWith("/sendChatAction");
+    expect(capturedBody).toEqual({ chat_id: "987654321", action: "typing" });
+
+    globalThis.fetch = originalFetch;
+  });
+
   test("sendMessage should call API with correct parameters", async () => {
     const client = new TelegramClient(mockConfig);
 
@@ -103,6 +160,38 @@ describe("TelegramClient", () => {
 
     globalThis.fetch = originalFetch;
   });
+
+  test("sendDocument should upload the file as multipart form data", async () => {
+    const client = new TelegramClient(mockConfig);
+
+    let capturedUrl = "";
+    let capturedBody: FormData | undefined;
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = mock((url: string, options: RequestInit) => {
+      capturedUrl = url;
+      capturedBody = options.body as FormData;
+      return Promise.resolve(
+        Response.json({
+          ok: true,
+          result: { message_id: 124 },
+        })
+      );
+    }) as unknown as typeof fetch;
+
+    await client.sendDocument(
+      { filename: "app.ts.diff", content: "+added" },
+      123
+    );
+
+    expect(capturedUrl).toEndWith("/sendDocument");
+    expect(capturedBody?.get("chat_id")).toBe("987654321");
+    expect(capturedBody?.get("reply_to_message_id")).toBe("123");
+    const document = capturedBody?.get("document") as File;
+    expect(document.name).toBe("app.ts.diff");
+    expect(await document.text()).toBe("+added");
+
+    globalThis.fetch = originalFetch;
+  });
 });
 
 describe("createApprovalKeyboard", () => {
@@ -126,6 +215,14 @@ describe("createApprovalKeyboard", () => {
     expect(labels).toContain("Reply");
   });
 
+  test("should add grant buttons in their own row when requested", () => {
+    const keyboard = createApprovalKeyboard(true, true);
+
+    expect(keyboard.inline_keyboard).toHaveLength(3);
+    const callbacks = keyboard.inline_keyboard[1]?.map((b) => b.callback_data);
+    expect(callbacks).toEqual(["approve_session", "approve_project"]);
+  });
+
   test("should have correct callback data", () => {
     const keyboard = createApprovalKeyboard();
 
@@ -138,3 +235,392 @@ describe("createApprovalKeyboard", () => {
     expect(callbacks).toContain("reply");
   });
 });
+
+describe("approver allowlist", () => {
+  const approvalTap = (from: TelegramUser): TelegramUpdate => ({
+    update_id: 1,
+    callback_query: {
+      id: "cb-1",
+      from,
+      message: {
+        message_id: 10,
+        chat: { id: 987_654_321, type: "group" },
+        date: 0,
+      },
+      chat_instance: "test",
+      data: "approve",
+    },
+  });
+  const alice: TelegramUser = {
+    id: 1,
+    is_bot: false,
+    first_name: "Alice",
+    username: "Alice",
+  };
+  const mallory: TelegramUser = { id: 666, is_bot: false, first_name: "M" };
+
+  test("should allow anyone when no allowlist is configured", () => {
+    const client = new TelegramClient(mockConfig);
+
+    expect(client.isAuthorized(mallory)).toBe(true);
+  });
+
+  test("should match user ids and usernames case-insensitively", () => {
+    const client = new TelegramClient({
+      ...mockConfig,
+      allowedUserIds: [42],
+      approverUsernames: ["@alice"],
+    });
+
+    expect(client.isAuthorized(alice)).toBe(true);
+    expect(client.isAuthorized({ ...mallory, id: 42 })).toBe(true);
+    expect(client.isAuthorized(mallory)).toBe(false);
+  });
+
+  test("should alert and ignore taps from unauthorized users", async () => {
+    const client = new TelegramClient({
+      ...mockConfig,
+      approverUsernames: ["alice"],
+    });
+
+    const calls: { url: string; body: Record<string, unknown> }[] = [];
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = mock((url: string, options: RequestInit) => {
+      calls.push({ url, body: JSON.parse(options.body as string) });
+      return Promise.resolve(Response.json({ ok: true, result: true }));
+    }) as unknown as typeof fetch;
+
+    const pending = { messageId: 10, waitingForText: false };
+    const rejected = await client.handleUpdate(approvalTap(mallory), pending);
+    const accepted = await client.handleUpdate(approvalTap(alice), pending);
+
+    expect(rejected).toBeNull();
+    expect(calls[0]?.body).toMatchObject({
+      text: "You are not authorized",
+      show_alert: true,
+    });
+    expect(accepted?.type).toBe("approve");
+
+    globalThis.fetch = originalFetch;
+  });
+
+  test("should ignore free-text replies from unauthorized users", async () => {
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = mock(() =>
+      Promise.resolve(Response.json({ ok: true, result: true }))
+    ) as unknown as typeof fetch;
+    const client = new TelegramClient({ ...mockConfig, allowedUserIds: [1] });
+    const textFrom = (from: TelegramUser): TelegramUpdate => ({
+      update_id: 2,
+      message: {
+        message_id: 11,
+        from,
+        chat: { id: 987_654_321, type: "group" },
+        date: 0,
+        text: "use bun",
+        reply_to_message: {
+          message_id: 12,
+          chat: { id: 987_654_321, type: "group" },
+          date: 0,
+        },
+      },
+    });
+
+    const pending = {
+      messageId: 10,
+      waitingForText: true,
+      promptMessageId: 12,
+    };
+
+    await client.handleUpdate(textFrom(mallory), pending);
+    expect(pending).not.toHaveProperty("replyParts");
+    await client.handleUpdate(textFrom(alice), pending);
+    expect(pending).toHaveProperty("replyParts", [
+      { messageId: 11, text: "use bun" },
+    ]);
+
+    globalThis.fetch = originalFetch;
+  });
+});
+
+describe("createContinueKeyboard", () => {
+  test("should open the reply flow or let Claude stop", () => {
+    const keyboard = createContinueKeyboard();
+
+    expect(keyboard.inline_keyboard.flat().map((b) => b.callback_data)).toEqual(
+      ["reply", "skip"]
+    );
+    expect(keyboard.inline_keyboard[0]?.[0]?.text).toBe("Continue with…");
+  });
+});
+
+describe("choice buttons", () => {
+  test("createChoiceKeyboard should put each choice on its own row", () => {
+    const keyboard = createChoiceKeyboard(["Production", "Staging"]);
+
+    expect(keyboard.inline_keyboard.map((row) => row.length)).toEqual([
+      1, 1, 2,
+    ]);
+    expect(keyboard.inline_keyboard.flat().map((b) => b.callback_data)).toEqual(
+      ["choice:0", "choice:1", "skip", "reply"]
+    );
+  });
+
+  test("createChoiceKeyboard should drop Reply when asked", () => {
+    const keyboard = createChoiceKeyboard(["Accept"], false);
+
+    expect(keyboard.inline_keyboard.flat().map((b) => b.callback_data)).toEqual(
+      ["choice:0", "skip"]
+    );
+  });
+
+  test("should resolve a tap with the choice index", async () => {
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = mock(() =>
+      Promise.resolve(Response.json({ ok: true, result: true }))
+    ) as unknown as typeof fetch;
+    const client = new TelegramClient(mockConfig);
+
+    const response = await client.handleUpdate(
+      {
+        update_id: 1,
+        callback_query: {
+          id: "cb",
+          from: { id: 1, is_bot: false, first_name: "A" },
+          message: {
+            message_id: 10,
+            chat: { id: 987_654_321, type: "private" },
+            date: 0,
+          },
+          chat_instance: "test",
+          data: "choice:1",
+        },
+      },
+      { messageId: 10, waitingForText: false }
+    );
+
+    expect(response).toMatchObject({ type: "choice", index: 1 });
+
+    globalThis.fetch = originalFetch;
+  });
+});
+
+describe("reply collection", () => {
+  const chat = { id: 987_654_321, type: "private" as const };
+  const user: TelegramUser = { id: 1, is_bot: false, first_name: "A" };
+
+  const tap = (data: string): TelegramUpdate => ({
+    update_id: 1,
+    callback_query: {
+      id: "cb",
+      from: user,
+      message: { message_id: 10, chat, date: 0 },
+      chat_instance: "test",
+      data,
+    },
+  });
+
+  const text = (
+    messageId: number,
+    content: string,
+    replyTo?: number
+  ): TelegramUpdate => ({
+    update_id: messageId,
+    message: {
+      message_id: messageId,
+      from: user,
+      chat,
+      date: 0,
+      text: content,
+      reply_to_message:
+        replyTo === undefined
+          ? undefined
+          : { message_id: replyTo, chat, date: 0 },
+    },
+  });
+
+  function mockApi(): { method: string; body: Record<string, unknown> }[] {
+    const calls: { method: string; body: Record<string, unknown> }[] = [];
+    globalThis.fetch = mock((url: string, options: RequestInit) => {
+      const method = url.split("/").at(-1) ?? "";
+      calls.push({ method, body: JSON.parse(options.body as string) });
+      const result = method === "sendMessage" ? { message_id: 20 } : true;
+      return Promise.resolve(Response.json({ ok: true, result }));
+    }) as unknown as typeof fetch;
+    return calls;
+  }
+
+  async function startReply(client: TelegramClient): Promise<PendingRequest> {
+    const pending: PendingRequest = { messageId: 10, waitingForText: false };
+    await client.handleUpdate(tap("reply"), pending);
+    return pending;
+  }
+
+  test("Reply sends a force-reply prompt and shows Done", async () => {
+    const originalFetch = globalThis.fetch;
+    const calls = mockApi();
+    const client = new TelegramClient(mockConfig);
+
+    const pending = await startReply(client);
+
+    const prompt = calls.find((call) => call.method === "sendMessage");
+    expect(prompt?.body).toMatchObject({
+      reply_to_message_id: 10,
+      reply_markup: { force_reply: true },
+    });
+    expect(pending.promptMessageId).toBe(20);
+    expect(calls.at(-1)?.body.reply_markup).toEqual(createReplyKeyboard(0));
+
+    globalThis.fetch = originalFetch;
+  });
+
+  test("ignores messages that don't reply to the request", async () => {
+    const originalFetch = globalThis.fetch;
+    mockApi();
+    const client = new TelegramClient(mockConfig);
+    const pending = await startReply(client);
+
+    await client.handleUpdate(text(30, "lunch?"), pending);
+    await client.handleUpdate(text(31, "unrelated thread", 5), pending);
+
+    expect(pending.replyParts).toEqual([]);
+
+    globalThis.fetch = originalFetch;
+  });
+
+  test("Done joins every collected reply into one response", async () => {
+    const originalFetch = globalThis.fetch;
+    const calls = mockApi();
+    const client = new TelegramClient(mockConfig);
+    const pending = await startReply(client);
+
+    expect(
+      await client.handleUpdate(text(30, "Use bun, not npm.", 20), pending)
+    ).toBeNull();
+    // Later parts may reply to an earlier part instead of the prompt
+    await client.handleUpdate(text(31, "Then run the tests.", 30), pending);
+    expect(calls.at(-1)?.body.reply_markup).toEqual(createReplyKeyboard(2));
+
+    const response = await client.handleUpdate(tap("reply_done"), pending);
+
+    expect(response).toMatchObject({
+      type: "text",
+      content: "Use bun, not npm.\n\nThen run the tests.",
+    });
+
+    globalThis.fetch = originalFetch;
+  });
+
+  test("Done waits until something was written", async () => {
+    const originalFetch = globalThis.fetch;
+    const calls = mockApi();
+    const client = new TelegramClient(mockConfig);
+    const pending = await startReply(client);
+
+    expect(await client.handleUpdate(tap("reply_done"), pending)).toBeNull();
+    expect(calls.at(-1)?.body.text).toBe("Reply to the prompt message first");
+
+    globalThis.fetch = originalFetch;
+  });
+
+  test("Cancel and /cancel skip the request", async () => {
+    const originalFetch = globalThis.fetch;
+    mockApi();
+    const client = new TelegramClient(mockConfig);
+
+    const cancelled = await client.handleUpdate(
+      tap("reply_cancel"),
+      await startReply(client)
+    );
+    const typed = await client.handleUpdate(
+      text(30, "/cancel", 20),
+      await startReply(client)
+    );
+
+    expect(cancelled?.type).toBe("skip");
+    expect(typed?.type).toBe("skip");
+
+    globalThis.fetch = originalFetch;
+  });
+});
+
+describe("quorum approvals", () => {
+  const tap = (id: number, username: string, data: string): TelegramUpdate => ({
+    update_id: id,
+    callback_query: {
+      id: `cb-${id}`,
+      from: { id, is_bot: false, first_name: username, username },
+      message: {
+        message_id: 10,
+        chat: { id: 987_654_321, type: "group" },
+        date: 0,
+      },
+      chat_instance: "test",
+      data,
+    },
+  });
+
+  function mockApi(): { method: string; body: Record<string, unknown> }[] {
+    const calls: { method: string; body: Record<string, unknown> }[] = [];
+    globalThis.fetch = mock((url: string, options: RequestInit) => {
+      calls.push({
+        method: url.split("/").at(-1) ?? "",
+        body: JSON.parse(options.body as string),
+      });
+      return Promise.resolve(Response.json({ ok: true, result: true }));
+    }) as unknown as typeof fetch;
+    return calls;
+  }
+
+  test("should resolve only after N distinct approvers", async () => {
+    const originalFetch = globalThis.fetch;
+    const calls = mockApi();
+    const client = new TelegramClient(mockConfig);
+    const pending = { messageId: 10, waitingForText: false, quorum: 2 };
+
+    expect(await client.handleUpdate(tap(1, "alice", "approve"), pending)).toBe(
+      null
+    );
+    const tallyEdit = calls.find((c) => c.method === "editMessageReplyMarkup");
+    expect(JSON.stringify(tallyEdit?.body)).toContain("1/2 approved: @alice");
+
+    // The same person tapping twice doesn't count twice
+    expect(await client.handleUpdate(tap(1, "alice", "approve"), pending)).toBe(
+      null
+    );
+
+    const response = await client.handleUpdate(
+      tap(2, "bob", "approve"),
+      pending
+    );
+    expect(response?.type).toBe("approve");
+    expect(
+      response?.type === "approve" && response.approvers?.map((a) => a.id)
+    ).toEqual([1, 2]);
+
+    globalThis.fetch = originalFetch;
+  });
+
+  test("should let a single deny short-circuit the quorum", async () => {
+    const originalFetch = globalThis.fetch;
+    mockApi();
+    const client = new TelegramClient(mockConfig);
+    const pending = { messageId: 10, waitingForText: false, quorum: 3 };
+
+    await client.handleUpdate(tap(1, "alice", "approve"), pending);
+    const response = await client.handleUpdate(tap(2, "bob", "deny"), pending);
+
+    expect(response?.type).toBe("deny");
+
+    globalThis.fetch = originalFetch;
+  });
+
+  test("createQuorumKeyboard should show the tally above the buttons", () => {
+    const keyboard = createQuorumKeyboard([], 2);
+
+    expect(keyboard.inline_keyboard[0]?.[0]?.text).toBe("0/2 approved");
+    expect(keyboard.inline_keyboard.flat().map((b) => b.callback_data)).toEqual(
+      ["tally", "approve", "deny", "skip", "reply"]
+    );
+  });
+});
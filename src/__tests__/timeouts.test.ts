@@ -0,0 +1,141 @@
+import { describe, expect, mock, test } from "bun:test";
+import { TelegramClient } from "../telegram";
+import {
+  fitTimeoutRule,
+  formatDuration,
+  resolveTimeoutRule,
+  scheduleReminders,
+} from "../timeouts";
+import type { TelegramConfig } from "../types";
+
+const mockConfig: TelegramConfig = {
+  botToken: "123456789:ABCdefGHIjklMNOpqrsTUVwxyz",
+  chatId: "987654321",
+  timeout: 3600,
+  projectPath: "/test/project",
+};
+
+describe("resolveTimeoutRule", () => {
+  test("should default to the global timeout and deny", () => {
+    expect(
+      resolveTimeoutRule(mockConfig, { hook_event_name: "Notification" })
+    ).toEqual({
+      timeout: 3600,
+      action: "deny",
+      reminders: [],
+      extendBy: 3600,
+      escalateChatId: undefined,
+    });
+  });
+
+  test("should let tool rules override event rules and defaults", () => {
+    const config: TelegramConfig = {
+      ...mockConfig,
+      timeoutPolicy: {
+        action: "remind",
+        reminders: [300],
+        events: { PreToolUse: { timeout: 1200, action: "allow" } },
+        tools: { Bash: { action: "escalate", escalateChatId: "-100123" } },
+      },
+    };
+
+    const bash = resolveTimeoutRule(config, {
+      hook_event_name: "PreToolUse",
+      tool_name: "Bash",
+    });
+    expect(bash.timeout).toBe(1200);
+    expect(bash.action).toBe("escalate");
+    expect(bash.escalateChatId).toBe("-100123");
+    expect(bash.reminders).toEqual([300]);
+
+    const edit = resolveTimeoutRule(config, {
+      hook_event_name: "PreToolUse",
+      tool_name: "Edit",
+    });
+    expect(edit.action).toBe("allow");
+
+    const notification = resolveTimeoutRule(config, {
+      hook_event_name: "Notification",
+    });
+    expect(notification.action).toBe("remind");
+  });
+
+  test("should drop reminders at or past the timeout", () => {
+    const rule = resolveTimeoutRule(
+      { ...mockConfig, timeoutPolicy: { timeout: 600, reminders: [900, 300] } },
+      { hook_event_name: "Notification" }
+    );
+
+    expect(rule.reminders).toEqual([300]);
+  });
+});
+
+describe("fitTimeoutRule", () => {
+  const remind = resolveTimeoutRule(
+    {
+      ...mockConfig,
+      timeoutPolicy: { action: "remind", reminders: [600, 3000] },
+    },
+    { hook_event_name: "PreToolUse" }
+  );
+
+  test("should scale the wait and its extension into the budget", () => {
+    const rule = fitTimeoutRule(remind, 3585);
+
+    expect(rule.timeout + rule.extendBy).toBeLessThanOrEqual(3585);
+    expect(rule.timeout).toBe(1792);
+    expect(rule.reminders).toEqual([600]);
+  });
+
+  test("should keep a rule that already fits", () => {
+    expect(fitTimeoutRule(remind, 7200)).toBe(remind);
+    expect(fitTimeoutRule(remind, undefined)).toBe(remind);
+  });
+
+  test("should only shorten the wait for actions that don't extend it", () => {
+    const allow = resolveTimeoutRule(
+      { ...mockConfig, timeoutPolicy: { action: "allow" } },
+      { hook_event_name: "PreToolUse" }
+    );
+
+    expect(fitTimeoutRule(allow, 3585)).toMatchObject({
+      timeout: 3585,
+      extendBy: 3600,
+    });
+  });
+});
+
+describe("formatDuration", () => {
+  test("should use the largest sensible unit", () => {
+    expect(formatDuration(45)).toBe("45s");
+    expect(formatDuration(300)).toBe("5 min");
+    expect(formatDuration(3600)).toBe("1h");
+    expect(formatDuration(5400)).toBe("1h 30 min");
+  });
+});
+
+describe("scheduleReminders", () => {
+  test("should reply to the approval message until cancelled", async () => {
+    const originalFetch = globalThis.fetch;
+    const bodies: Record<string, unknown>[] = [];
+    globalThis.fetch = mock((_url: string, options: RequestInit) => {
+      bodies.push(JSON.parse(options.body as string));
+      return Promise.resolve(
+        Response.json({ ok: true, result: { message_id: 2 } })
+      );
+    }) as unknown as typeof fetch;
+
+    const cancel = scheduleReminders(new TelegramClient(mockConfig), 42, {
+      reminders: [0.01, 5],
+      timeout: 10,
+    });
+    await Bun.sleep(50);
+    cancel();
+
+    expect(bodies).toHaveLength(1);
+    expect(bodies[0]).toMatchObject({ reply_to_message_id: 42 });
+    expect(String(bodies[0]?.text)).toContain("Reminder");
+
+    globalThis.fetch = originalFetch;
+  });
+});
@@ -0,0 +1,182 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  getSessionStart,
+  parseTranscript,
+  readSessionStart,
+  readTurnSummary,
+  summarizeTurn,
+} from "../transcript";
+import type { TranscriptEntry } from "../types";
+
+const entries: TranscriptEntry[] = [
+  {
+    type: "user",
+    timestamp: "2026-01-01T10:00:00.000Z",
+    message: { role: "user", content: "First task" },
+  },
+  {
+    type: "assistant",
+    timestamp: "2026-01-01T10:00:05.000Z",
+    message: {
+      role: "assistant",
+      content: [
+        {
+          type: "tool_use",
+          name: "Write",
+          input: { file_path: "/repo/old.ts" },
+        },
+      ],
+    },
+  },
+  {
+    type: "user",
+    timestamp: "2026-01-01T11:00:00.000Z",
+    message: { role: "user", content: [{ type: "text", text: "Fix the bug" }] },
+  },
+  {
+    type: "assistant",
+    timestamp: "2026-01-01T11:00:10.000Z",
+    message: {
+      role: "assistant",
+      content: [
+        { type: "text", text: "Looking at it." },
+        {
+          type: "tool_use",
+          name: "Edit",
+          input: { file_path: "/repo/src/app.ts" },
+        },
+      ],
+    },
+  },
+  {
+    type: "user",
+    timestamp: "2026-01-01T11:00:11.000Z",
+    message: {
+      role: "user",
+      content: [{ type: "tool_result" }],
+    },
+  },
+  {
+    type: "assistant",
+    timestamp: "2026-01-01T11:01:30.000Z",
+    message: {
+      role: "assistant",
+      content: [
+        { type: "tool_use", name: "Bash", input: { command: "bun test" } },
+        {
+          type: "tool_use",
+          name: "Edit",
+          input: { file_path: "/repo/src/app.ts" },
+        },
+      ],
+    },
+  },
+  {
+    type: "assistant",
+    timestamp: "2026-01-01T11:02:00.000Z",
+    message: {
+      role: "assistant",
+      content: [{ type: "text", text: "Fixed the bug. Tests pass." }],
+    },
+  },
+];
+
+describe("parseTranscript", () => {
+  test("parses JSONL and skips malformed lines", () => {
+    const text = [
+      JSON.stringify(entries[0]),
+      "",
+      "{ partial",
+      JSON.stringify(entries[1]),
+    ].join("\n");
+
+    expect(parseTranscript(text)).toEqual(entries.slice(0, 2));
+  });
+});
+
+describe("summarizeTurn", () => {
+  test("summarizes only the turn since the last user prompt", () => {
+    expect(summarizeTurn(entries)).toEqual({
+      lastMessage: "Fixed the bug. Tests pass.",
+      toolCalls: 3,
+      editedFiles: ["/repo/src/app.ts"],
+      durationMs: 120_000,
+    });
+  });
+
+  test("ignores tool results when finding the turn start", () => {
+    const summary = summarizeTurn(entries.slice(0, 5));
+
+    expect(summary.toolCalls).toBe(1);
+    expect(summary.lastMessage).toBe("Looking at it.");
+  });
+
+  test("handles an empty transcript", () => {
+    expect(summarizeTurn([])).toEqual({
+      lastMessage: undefined,
+      toolCalls: 0,
+      editedFiles: [],
+      durationMs: undefined,
+    });
+  });
+});
+
+describe("getSessionStart", () => {
+  test("uses the first timestamped entry", () => {
+    expect(getSessionStart([{ type: "summary" }, ...entries])).toBe(
+      Date.parse("2026-01-01T10:00:00.000Z")
+    );
+    expect(getSessionStart([{ type: "summary" }])).toBeUndefined();
+  });
+});
+
+describe("readTurnSummary", () => {
+  const path = join(tmpdir(), `claude-telegram-transcript-${Date.now()}.jsonl`);
+
+  afterEach(async () => {
+    await rm(path, { force: true });
+  });
+
+  test("reads a transcript file", async () => {
+    await Bun.write(
+      path,
+      entries.map((entry) => JSON.stringify(entry)).join("\n")
+    );
+
+    expect((await readTurnSummary(path))?.toolCalls).toBe(3);
+  });
+
+  test("returns null without a readable transcript", async () => {
+    expect(await readTurnSummary(undefined)).toBeNull();
+    expect(await readTurnSummary(path)).toBeNull();
+  });
+});
+
+describe("readSessionStart", () => {
+  const path = join(tmpdir(), `claude-telegram-start-${Date.now()}.jsonl`);
+
+  afterEach(async () => {
+    await rm(path, { force: true });
+  });
+
+  test("reads the first timestamped entry", async () => {
+    await Bun.write(
+      path,
+      [{ type: "summary" }, ...entries]
+        .map((entry) => JSON.stringify(entry))
+        .join("\n")
+    );
+
+    expect(await readSessionStart(path)).toBe(
+      Date.parse("2026-01-01T10:00:00.000Z")
+    );
+  });
+
+  test("returns undefined without a readable transcript", async () => {
+    expect(await readSessionStart(undefined)).toBeUndefined();
+    expect(await readSessionStart(path)).toBeUndefined();
+  });
+});
@@ -0,0 +1,13 @@
+/**
+ * Reads a flag's value from `--flag value` or `--flag=value`.
+ */
+export function getArgValue(args: string[], flag: string): string | undefined {
+  const inline = args.find((arg) => arg.startsWith(`${flag}=`));
+  if (inline) {
+    return inline.slice(flag.length + 1);
+  }
+
+  const index = args.indexOf(flag);
+  const value = index === -1 ? undefined : args[index + 1];
+  return value?.startsWith("--") ? undefined : value;
+}
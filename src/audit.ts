@@ -0,0 +1,133 @@
+import { appendFile, mkdir } from "node:fs/promises";
+import { basename, dirname } from "node:path";
+import { getAuditLogPath } from "./config";
+import type {
+  AuditDecision,
+  AuditEntry,
+  AuditFilter,
+  AuditSource,
+  ClaudeHookInput,
+  Responder,
+} from "./types";
+
+export interface AuditOutcome {
+  decision: AuditDecision;
+  source: AuditSource;
+  responder?: Responder;
+  approvers?: Responder[];
+  reason?: string;
+}
+
+export function hashToolInput(
+  toolInput: Record<string, unknown> | undefined
+): string | undefined {
+  if (!toolInput) {
+    return;
+  }
+  return new Bun.CryptoHasher("sha256")
+    .update(JSON.stringify(toolInput))
+    .digest("hex");
+}
+
+export function createAuditEntry(
+  input: ClaudeHookInput,
+  gitBranch: string | undefined,
+  requestedAt: number,
+  outcome: AuditOutcome
+): AuditEntry {
+  const decidedAt = Date.now();
+
+  return {
+    requested_at: new Date(requestedAt).toISOString(),
+    decided_at: new Date(decidedAt).toISOString(),
+    latency_ms: decidedAt - requestedAt,
+    session_id: input.session_id,
+    cwd: input.cwd,
+    branch: gitBranch,
+    hook_event_name: input.hook_event_name,
+    tool_name: input.tool_name,
+    tool_input_hash: hashToolInput(input.tool_input),
+    ...outcome,
+  };
+}
+
+/**
+ * Appends one entry to the JSONL audit log. The log is append-only:
+ * nothing in claude-telegram rewrites or truncates it.
+ */
+export async function appendAuditEntry(
+  entry: AuditEntry,
+  path = getAuditLogPath()
+): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await appendFile(path, `${JSON.stringify(entry)}\n`);
+}
+
+export async function readAuditLog(
+  path = getAuditLogPath()
+): Promise<AuditEntry[]> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) {
+    return [];
+  }
+
+  const entries: AuditEntry[] = [];
+  for (const line of (await file.text()).split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      // Skip partially written lines
+    }
+  }
+  return entries;
+}
+
+function matchesProject(entry: AuditEntry, project: string): boolean {
+  return basename(entry.cwd) === project || entry.cwd.includes(project);
+}
+
+export function filterAuditEntries(
+  entries: AuditEntry[],
+  filter: AuditFilter
+): AuditEntry[] {
+  return entries.filter((entry) => {
+    const requestedAt = new Date(entry.requested_at);
+    if (filter.since && requestedAt < filter.since) {
+      return false;
+    }
+    if (filter.until && requestedAt > filter.until) {
+      return false;
+    }
+    if (filter.project && !matchesProject(entry, filter.project)) {
+      return false;
+    }
+    if (filter.decision && entry.decision !== filter.decision) {
+      return false;
+    }
+    return true;
+  });
+}
+
+export function formatAuditEntry(entry: AuditEntry): string {
+  const when = entry.requested_at.replace("T", " ").slice(0, 19);
+  const who = entry.responder?.username
+    ? `@${entry.responder.username}`
+    : (entry.responder?.name ?? "-");
+  const project = entry.branch
+    ? `${basename(entry.cwd)} (${entry.branch})`
+    : basename(entry.cwd);
+  const latency = `${(entry.latency_ms / 1000).toFixed(1)}s`;
+
+  return [
+    when,
+    entry.decision.padEnd(9),
+    entry.source.padEnd(8),
+    who.padEnd(16),
+    (entry.tool_name ?? "-").padEnd(10),
+    project,
+    latency,
+  ].join("  ");
+}
@@ -0,0 +1,297 @@
+import { getMutedEvents } from "./events";
+import { escapeHtml, truncate } from "./formatters";
+import { getActiveSessions, loadSessions } from "./sessions";
+import type { TelegramClient } from "./telegram";
+import { formatDuration } from "./timeouts";
+import type {
+  BotCommand,
+  InlineKeyboardMarkup,
+  PendingRequest,
+  SessionRecord,
+  TelegramCallbackQuery,
+  TelegramConfig,
+  TelegramMessage,
+  TelegramUpdate,
+} from "./types";
+
+export const BOT_COMMANDS: BotCommand[] = [
+  { command: "status", description: "Uptime, profile and muted events" },
+  { command: "pending", description: "Requests waiting for a response" },
+  { command: "sessions", description: "Active Claude Code sessions" },
+];
+
+/**
+ * Adds the commands to the chat's command menu. Called from setup,
+ * --test and the daemon, so they autocomplete with or without a daemon.
+ * A failure is only logged; the commands still work when typed.
+ */
+export async function registerCommands(client: TelegramClient): Promise<void> {
+  try {
+    await client.setMyCommands(BOT_COMMANDS);
+  } catch (error) {
+    console.error("Failed to register commands:", (error as Error).message);
+  }
+}
+
+// Callback data of /pending buttons is this prefix plus the message ID
+const PENDING_PREFIX = "pending:";
+const MAX_BUTTON_SUMMARY_LENGTH = 40;
+// "/status", or "/status@SomeBot" in groups with several bots
+const COMMAND_PATTERN = /^\/([a-z]+)(?:@(\w+))?(?:\s|$)/i;
+
+/**
+ * Where the router runs: the daemon sees every session's requests, a hook
+ * polling on its own only sees its own.
+ */
+export interface RouterStatus {
+  mode: "daemon" | "hook";
+  startedAt: number;
+  config: TelegramConfig;
+}
+
+export interface CommandReply {
+  text: string;
+  keyboard?: InlineKeyboardMarkup;
+}
+
+export function parseCommand(
+  text: string | undefined
+): { name: string; bot?: string } | undefined {
+  const match = text?.match(COMMAND_PATTERN);
+  const name = match?.[1]?.toLowerCase();
+  if (!(name && BOT_COMMANDS.some((command) => command.command === name))) {
+    return;
+  }
+  return { name, bot: match?.[2] };
+}
+
+function formatSince(from: number, now: number): string {
+  return formatDuration(Math.max(Math.round((now - from) / 1000), 0));
+}
+
+function formatProject(projectName: string, gitBranch?: string): string {
+  const project = `<b>${escapeHtml(projectName)}</b>`;
+  return gitBranch
+    ? `${project} (<code>${escapeHtml(gitBranch)}</code>)`
+    : project;
+}
+
+export function formatStatus(
+  status: RouterStatus,
+  pendingCount: number,
+  now = Date.now()
+): CommandReply {
+  const { config } = status;
+  const muted = getMutedEvents(config);
+  const uptime =
+    status.mode === "daemon"
+      ? `<b>Daemon uptime:</b> ${formatSince(status.startedAt, now)}`
+      : `<b>No daemon;</b> answered by a hook waiting for ${formatSince(status.startedAt, now)}`;
+
+  return {
+    text: [
+      "<b>claude-telegram status</b>",
+      "",
+      uptime,
+      `<b>Profile:</b> ${escapeHtml(config.profile ?? "default")}`,
+      `<b>Pending requests:</b> ${pendingCount}`,
+      `<b>Muted events:</b> ${muted.length > 0 ? muted.join(", ") : "none"}`,
+    ].join("\n"),
+  };
+}
+
+export function formatPending(
+  pending: PendingRequest[],
+  now = Date.now()
+): CommandReply {
+  if (pending.length === 0) {
+    return { text: "No requests are waiting for a response." };
+  }
+
+  const lines = pending.map((request, index) => {
+    const info = request.info;
+    if (!info) {
+      return `${index + 1}. Message ${request.messageId}`;
+    }
+    return `${index + 1}. ${formatProject(info.projectName, info.gitBranch)}: ${escapeHtml(
+      info.summary
+    )}, waiting ${formatSince(info.requestedAt, now)}`;
+  });
+
+  return {
+    text: [
+      `<b>Pending requests</b> (${pending.length})`,
+      "",
+      ...lines,
+      "",
+      "Tap one to jump to it.",
+    ].join("\n"),
+    keyboard: {
+      inline_keyboard: pending.map((request, index) => [
+        {
+          text: `${index + 1}. ${truncate(
+            request.info?.summary ?? `Message ${request.messageId}`,
+            MAX_BUTTON_SUMMARY_LENGTH
+          )}`,
+          callback_data: `${PENDING_PREFIX}${request.messageId}`,
+        },
+      ]),
+    },
+  };
+}
+
+export function formatSessions(
+  sessions: SessionRecord[],
+  pending: PendingRequest[],
+  now = Date.now()
+): CommandReply {
+  if (sessions.length === 0) {
+    return { text: "No active sessions." };
+  }
+
+  const lines = sessions.map((session) => {
+    const waiting = pending.filter(
+      (request) => request.info?.sessionId === session.sessionId
+    ).length;
+    const details = [
+      `started ${formatSince(session.startedAt, now)} ago`,
+      `last active ${formatSince(session.lastSeenAt, now)} ago`,
+      ...(waiting > 0 ? [`${waiting} pending`] : []),
+    ];
+    return `• ${formatProject(session.projectName, session.gitBranch)}\n  <code>${escapeHtml(
+      session.sessionId
+    )}</code>\n  ${details.join(", ")}`;
+  });
+
+  return {
+    text: [`<b>Active sessions</b> (${sessions.length})`, "", ...lines].join(
+      "\n"
+    ),
+  };
+}
+
+/**
+ * Answers /status, /pending and /sessions in the configured chat, and the
+ * buttons under /pending. Other updates are left for request handling.
+ */
+export class CommandRouter {
+  private readonly client: TelegramClient;
+  private readonly status: RouterStatus;
+  private readonly sessionsPath: string | undefined;
+  private botUsername: string | undefined;
+
+  constructor(
+    client: TelegramClient,
+    status: RouterStatus,
+    sessionsPath?: string
+  ) {
+    this.client = client;
+    this.status = status;
+    this.sessionsPath = sessionsPath;
+  }
+
+  /**
+   * Handles an update if it's a command or a /pending button. Returns
+   * whether it was one, so callers skip it.
+   */
+  async handle(
+    update: TelegramUpdate,
+    pending: PendingRequest[]
+  ): Promise<boolean> {
+    const callback = update.callback_query;
+    if (callback?.data?.startsWith(PENDING_PREFIX)) {
+      await this.jumpToPending(callback, pending);
+      return true;
+    }
+
+    const message = update.message;
+    const command = parseCommand(message?.text);
+    if (!(message && command && this.isOwnChat(message))) {
+      return false;
+    }
+    if (command.bot && !(await this.isAddressedToMe(command.bot))) {
+      return false;
+    }
+    if (!this.client.isAuthorized(message.from)) {
+      return true;
+    }
+
+    const reply = await this.answer(command.name, pending);
+    await this.client.sendMessage(
+      reply.text,
+      reply.keyboard,
+      false,
+      message.message_id
+    );
+    return true;
+  }
+
+  private async answer(
+    name: string,
+    pending: PendingRequest[]
+  ): Promise<CommandReply> {
+    const own = pending.filter(
+      (request) =>
+        request.chatId === undefined || request.chatId === this.client.chatId
+    );
+    if (name === "pending") {
+      return formatPending(own);
+    }
+    if (name === "sessions") {
+      const sessions = await loadSessions(this.sessionsPath);
+      return formatSessions(getActiveSessions(sessions), own);
+    }
+    return formatStatus(this.status, own.length);
+  }
+
+  private isOwnChat(message: TelegramMessage): boolean {
+    return String(message.chat.id) === this.client.chatId;
+  }
+
+  private async isAddressedToMe(bot: string): Promise<boolean> {
+    if (!this.botUsername) {
+      try {
+        this.botUsername = (await this.client.getMe()).username;
+      } catch {
+        return false;
+      }
+    }
+    return bot.toLowerCase() === this.botUsername?.toLowerCase();
+  }
+
+  /**
+   * Replies to the pending request, so Telegram shows a link to it with
+   * its buttons.
+   */
+  private async jumpToPending(
+    callback: TelegramCallbackQuery,
+    pending: PendingRequest[]
+  ): Promise<void> {
+    if (!this.client.isAuthorized(callback.from)) {
+      await this.client.answerCallbackQuery(
+        callback.id,
+        "You are not authorized",
+        true
+      );
+      return;
+    }
+
+    const messageId = Number(callback.data?.slice(PENDING_PREFIX.length));
+    const request = pending.find((entry) => entry.messageId === messageId);
+    if (!request) {
+      await this.client.answerCallbackQuery(
+        callback.id,
+        "That request is no longer pending"
+      );
+      return;
+    }
+
+    await this.client.answerCallbackQuery(callback.id);
+    await this.client.sendMessage(
+      "⬆️ This request is still waiting for a response.",
+      undefined,
+      false,
+      messageId
+    );
+  }
+}
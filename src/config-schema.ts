@@ -0,0 +1,295 @@
+/**
+ * Declared shape of config.json and .claude-telegram.json. Validation
+ * reports every problem with the path of the offending key, e.g.
+ * `timeoutPolicy.tools.Bash.action`.
+ */
+
+import { LIFECYCLE_EVENTS } from "./events";
+
+type Schema =
+  | { kind: "boolean" }
+  | { kind: "string"; values?: readonly string[] }
+  | { kind: "number"; integer?: boolean; min?: number }
+  | { kind: "array"; items: Schema }
+  | { kind: "object"; fields: Record<string, Schema> }
+  | { kind: "record"; values: Schema };
+
+// Bump when the stored shape changes, and add a migration below
+export const CONFIG_VERSION = 2;
+
+const MAX_SUGGESTION_DISTANCE = 2;
+
+const timeoutRuleFields: Record<string, Schema> = {
+  timeout: { kind: "number", min: 1 },
+  action: {
+    kind: "string",
+    values: ["deny", "allow", "remind", "escalate"],
+  },
+  reminders: { kind: "array", items: { kind: "number", min: 1 } },
+  extendBy: { kind: "number", min: 1 },
+  escalateChatId: { kind: "string" },
+};
+
+const timeoutRule: Schema = { kind: "object", fields: timeoutRuleFields };
+
+const profileFields: Record<string, Schema> = {
+  botToken: { kind: "string" },
+  botTokenRef: { kind: "string" },
+  chatId: { kind: "string" },
+  timeout: { kind: "number", min: 1 },
+  allowedUserIds: { kind: "array", items: { kind: "number", integer: true } },
+  approverUsernames: { kind: "array", items: { kind: "string" } },
+  timeoutPolicy: {
+    kind: "object",
+    fields: {
+      ...timeoutRuleFields,
+      events: { kind: "record", values: timeoutRule },
+      tools: { kind: "record", values: timeoutRule },
+    },
+  },
+  continueTimeout: { kind: "number", min: 0 },
+  events: {
+    kind: "object",
+    fields: Object.fromEntries(
+      LIFECYCLE_EVENTS.map((event) => [event, { kind: "boolean" }])
+    ),
+  },
+  failureAlertCooldown: { kind: "number", min: 0 },
+};
+
+const storedConfigSchema: Schema = {
+  kind: "object",
+  fields: {
+    version: { kind: "number", integer: true, min: 1 },
+    ...profileFields,
+    profiles: {
+      kind: "record",
+      values: { kind: "object", fields: profileFields },
+    },
+    profileRoutes: { kind: "record", values: { kind: "string" } },
+  },
+};
+
+// Any repository can ship a project file, so it may only pick a profile
+// and change what gets notified, never where requests go or who answers
+const PROJECT_KEYS = ["events", "failureAlertCooldown"];
+
+const projectConfigSchema: Schema = {
+  kind: "object",
+  fields: {
+    profile: { kind: "string" },
+    ...Object.fromEntries(
+      PROJECT_KEYS.map((key) => [key, profileFields[key] as Schema])
+    ),
+  },
+};
+
+function describeType(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  return Array.isArray(value) ? "array" : typeof value;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution =
+        (previous[j - 1] ?? 0) + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(
+        Math.min(
+          (previous[j] ?? 0) + 1,
+          (current[j - 1] ?? 0) + 1,
+          substitution
+        )
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length] ?? 0;
+}
+
+function suggestKey(key: string, known: string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = MAX_SUGGESTION_DISTANCE + 1;
+  for (const candidate of known) {
+    const distance = editDistance(key.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function validateObject(
+  value: object,
+  schema: Extract<Schema, { kind: "object" }>,
+  path: string
+): string[] {
+  const errors: string[] = [];
+  const known = Object.keys(schema.fields);
+
+  for (const [key, child] of Object.entries(value)) {
+    const fieldSchema = schema.fields[key];
+    if (fieldSchema) {
+      errors.push(...validateValue(child, fieldSchema, joinPath(path, key)));
+      continue;
+    }
+    const suggestion = suggestKey(key, known);
+    errors.push(
+      `${joinPath(path, key)}: unknown key${suggestion ? ` (did you mean "${suggestion}"?)` : ""}`
+    );
+  }
+  return errors;
+}
+
+function validateNumber(
+  value: number,
+  schema: Extract<Schema, { kind: "number" }>,
+  path: string
+): string[] {
+  if (!Number.isFinite(value)) {
+    return [`${path}: expected a number, got ${value}`];
+  }
+  if (schema.integer && !Number.isInteger(value)) {
+    return [`${path}: expected an integer, got ${value}`];
+  }
+  if (schema.min !== undefined && value < schema.min) {
+    return [`${path}: must be at least ${schema.min}, got ${value}`];
+  }
+  return [];
+}
+
+function validateValue(value: unknown, schema: Schema, path: string): string[] {
+  const expected = schema.kind === "record" ? "object" : schema.kind;
+  const actual = describeType(value);
+  if (actual !== expected) {
+    return [`${path || "config"}: expected ${expected}, got ${actual}`];
+  }
+
+  switch (schema.kind) {
+    case "string":
+      return schema.values && !schema.values.includes(value as string)
+        ? [`${path}: must be one of ${schema.values.join(", ")}`]
+        : [];
+    case "number":
+      return validateNumber(value as number, schema, path);
+    case "array":
+      return (value as unknown[]).flatMap((item, index) =>
+        validateValue(item, schema.items, `${path}[${index}]`)
+      );
+    case "record":
+      return Object.entries(value as object).flatMap(([key, child]) =>
+        validateValue(child, schema.values, joinPath(path, key))
+      );
+    case "object":
+      return validateObject(value as object, schema, path);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Checks a parsed config.json. Returns one message per problem; an empty
+ * list means the config is valid.
+ */
+export function validateStoredConfig(value: unknown): string[] {
+  return validateValue(value, storedConfigSchema, "");
+}
+
+export function validateProjectConfig(value: unknown): string[] {
+  const forbidden =
+    typeof value === "object" && value !== null
+      ? Object.keys(value).filter(
+          (key) => key in profileFields && !PROJECT_KEYS.includes(key)
+        )
+      : [];
+  if (forbidden.length > 0) {
+    return forbidden.map(
+      (key) =>
+        `${key}: not allowed in a project file; set it in config.json or a profile`
+    );
+  }
+  return validateValue(value, projectConfigSchema, "");
+}
+
+/**
+ * Checks one profile setting given outside a file, e.g. by an environment
+ * variable or CLI flag.
+ */
+export function validateProfileField(key: string, value: unknown): string[] {
+  const schema = profileFields[key];
+  return schema ? validateValue(value, schema, key) : [`${key}: unknown key`];
+}
+
+export function isPlainObject(
+  value: unknown
+): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+type Migration = (config: Record<string, unknown>) => Record<string, unknown>;
+
+function stringifyChatIds(
+  config: Record<string, unknown>
+): Record<string, unknown> {
+  const chatId = config.chatId;
+  return typeof chatId === "number"
+    ? { ...config, chatId: String(chatId) }
+    : config;
+}
+
+// MIGRATIONS[n] upgrades a version n config to version n + 1. Files
+// written before versioning count as version 1.
+const MIGRATIONS: Record<number, Migration> = {
+  // Chat IDs pasted as numbers become strings, including in profiles.
+  // Anything that isn't an object is left for validation to report.
+  1: (config) => {
+    const profiles = config.profiles;
+    if (!isPlainObject(profiles)) {
+      return stringifyChatIds(config);
+    }
+    return {
+      ...stringifyChatIds(config),
+      profiles: Object.fromEntries(
+        Object.entries(profiles).map(([name, profile]) => [
+          name,
+          isPlainObject(profile) ? stringifyChatIds(profile) : profile,
+        ])
+      ),
+    };
+  },
+};
+
+/**
+ * Upgrades a parsed config.json to CONFIG_VERSION. Returns the config
+ * unchanged when it's already current.
+ */
+export function migrateConfig(config: Record<string, unknown>): {
+  config: Record<string, unknown>;
+  migrated: boolean;
+} {
+  const version = typeof config.version === "number" ? config.version : 1;
+  if (version > CONFIG_VERSION) {
+    throw new Error(
+      `Config version ${version} is newer than this claude-telegram supports (${CONFIG_VERSION}). Please upgrade claude-telegram.`
+    );
+  }
+
+  let current = config;
+  for (let from = version; from < CONFIG_VERSION; from++) {
+    const migration = MIGRATIONS[from];
+    current = migration ? migration(current) : current;
+  }
+  return {
+    config: { ...current, version: CONFIG_VERSION },
+    migrated: version < CONFIG_VERSION,
+  };
+}
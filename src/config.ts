@@ -1,16 +1,116 @@
+import { stat } from "node:fs/promises";
 import { homedir } from "node:os";
-import { join } from "node:path";
-import type { TelegramConfig } from "./types";
+import { dirname, join } from "node:path";
+import { getArgValue } from "./args";
+import {
+  CONFIG_VERSION,
+  isPlainObject,
+  migrateConfig,
+  validateProfileField,
+  validateProjectConfig,
+  validateStoredConfig,
+} from "./config-schema";
+import { resolveSecretRef, writePrivateFile } from "./secrets";
+import type { LifecycleEvent, TelegramConfig, TimeoutPolicy } from "./types";
 
 const CONFIG_DIR = join(homedir(), ".claude-telegram");
 const CONFIG_FILE = join(CONFIG_DIR, "config.json");
+const POLICY_FILE = join(CONFIG_DIR, "policy.json");
+const AUDIT_LOG_FILE = join(CONFIG_DIR, "audit.jsonl");
+const GRANTS_FILE = join(CONFIG_DIR, "grants.json");
+const ALERTS_FILE = join(CONFIG_DIR, "alerts.json");
+const SESSIONS_FILE = join(CONFIG_DIR, "sessions.json");
+const SECRETS_FILE = join(CONFIG_DIR, "secrets.enc.json");
 
-interface StoredConfig {
-  botToken: string;
-  chatId: string;
+// Per-project config file, looked up from cwd upwards
+export const PROJECT_CONFIG_FILE = ".claude-telegram.json";
+
+export interface ProfileConfig {
+  botToken?: string;
+  // Reference to a stored token, e.g. "secret-tool:default", used instead
+  // of a plaintext botToken
+  botTokenRef?: string;
+  chatId?: string;
   timeout?: number;
+  allowedUserIds?: number[];
+  approverUsernames?: string[];
+  timeoutPolicy?: TimeoutPolicy;
+  continueTimeout?: number;
+  events?: Partial<Record<LifecycleEvent, boolean>>;
+  failureAlertCooldown?: number;
+}
+
+/**
+ * Top-level fields form the default profile. Named profiles override
+ * them, so a profile can reuse the default bot with another chat.
+ */
+export interface StoredConfig extends ProfileConfig {
+  version?: number;
+  profiles?: Record<string, ProfileConfig>;
+  // Path glob (e.g. "~/work/**") to profile name, first match wins
+  profileRoutes?: Record<string, string>;
+}
+
+// A project file can pick a profile and mute notifications, nothing that
+// changes where requests go or who may answer them
+interface ProjectConfig
+  extends Pick<ProfileConfig, "events" | "failureAlertCooldown"> {
+  profile?: string;
+}
+
+/**
+ * Where a resolved value came from, lowest precedence first: built-in
+ * defaults, the global file, its selected profile, the project file,
+ * environment variables, then CLI flags.
+ */
+export type ConfigLayer =
+  | "default"
+  | "global"
+  | "profile"
+  | "project"
+  | "env"
+  | "cli";
+
+export interface ResolvedConfig {
+  values: ProfileConfig;
+  sources: Partial<Record<keyof ProfileConfig, ConfigLayer>>;
+  profile?: string;
+  globalPath?: string;
+  projectPath?: string;
+}
+
+export interface LoadConfigOptions {
+  cwd?: string;
+  // Explicit profile name (--profile), ahead of any project routing
+  profile?: string;
+  path?: string;
+  env?: Record<string, string | undefined>;
+  // Values from CLI flags, the highest-precedence layer
+  overrides?: ProfileConfig;
 }
 
+const CONFIG_KEYS: (keyof ProfileConfig)[] = [
+  "botToken",
+  "botTokenRef",
+  "chatId",
+  "timeout",
+  "allowedUserIds",
+  "approverUsernames",
+  "timeoutPolicy",
+  "continueTimeout",
+  "events",
+  "failureAlertCooldown",
+];
+
+const DEFAULTS: ProfileConfig = { timeout: 3600 };
+// Waiting for a reply holds the terminal after every turn, so a Stop only
+// notifies unless the user opts in to a wait
+const DEFAULT_CONTINUE_TIMEOUT = 0;
+const DEFAULT_FAILURE_ALERT_COOLDOWN = 300;
+
+// A token and a token reference are two forms of the same value
+const TOKEN_KEYS: (keyof ProfileConfig)[] = ["botToken", "botTokenRef"];
+
 export function getConfigPath(): string {
   return CONFIG_FILE;
 }
@@ -19,35 +119,346 @@ export function getConfigDir(): string {
   return CONFIG_DIR;
 }
 
-export async function loadConfig(): Promise<TelegramConfig> {
-  const file = Bun.file(CONFIG_FILE);
+/**
+ * One daemon per bot: profiles that share a bot share its update stream,
+ * and only one process may poll it.
+ */
+export function getDaemonSocketPath(botId: string): string {
+  return join(CONFIG_DIR, `daemon-${botId}.sock`);
+}
+
+export function getPolicyPath(): string {
+  return POLICY_FILE;
+}
+
+export function getAuditLogPath(): string {
+  return AUDIT_LOG_FILE;
+}
+
+export function getGrantsPath(): string {
+  return GRANTS_FILE;
+}
+
+export function getAlertsPath(): string {
+  return ALERTS_FILE;
+}
+
+export function getSessionsPath(): string {
+  return SESSIONS_FILE;
+}
+
+export function getSecretsPath(): string {
+  return SECRETS_FILE;
+}
+
+function expandHome(pattern: string): string {
+  return pattern.startsWith("~/") ? join(homedir(), pattern.slice(2)) : pattern;
+}
+
+async function findProjectConfig(
+  cwd: string
+): Promise<{ path: string; config: ProjectConfig } | undefined> {
+  let dir = cwd;
+  while (true) {
+    const path = join(dir, PROJECT_CONFIG_FILE);
+    const file = Bun.file(path);
+    if (await file.exists()) {
+      const config = await parseConfigFile(path, validateProjectConfig);
+      return { path, config: config as ProjectConfig };
+    }
+
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return;
+    }
+    dir = parent;
+  }
+}
+
+function matchProfileRoute(
+  routes: Record<string, string> | undefined,
+  cwd: string
+): string | undefined {
+  for (const [pattern, profile] of Object.entries(routes ?? {})) {
+    if (new Bun.Glob(expandHome(pattern)).match(cwd)) {
+      return profile;
+    }
+  }
+}
+
+/**
+ * Parses a numeric setting from an environment variable or flag, checked
+ * against the same schema as the config files.
+ */
+function parseNumberSetting(
+  key: keyof ProfileConfig,
+  value: string,
+  origin: string
+): number {
+  const parsed = value.trim() ? Number(value) : Number.NaN;
+  const errors = validateProfileField(key, parsed);
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${origin} "${value}": ${errors.join("; ")}`);
+  }
+  return parsed;
+}
+
+function readEnvLayer(env: Record<string, string | undefined>): ProfileConfig {
+  const layer: ProfileConfig = {};
+  if (env.TELEGRAM_BOT_TOKEN) {
+    layer.botToken = env.TELEGRAM_BOT_TOKEN;
+  }
+  if (env.TELEGRAM_CHAT_ID) {
+    layer.chatId = env.TELEGRAM_CHAT_ID;
+  }
+  if (env.CLAUDE_TELEGRAM_TIMEOUT) {
+    layer.timeout = parseNumberSetting(
+      "timeout",
+      env.CLAUDE_TELEGRAM_TIMEOUT,
+      "CLAUDE_TELEGRAM_TIMEOUT"
+    );
+  }
+  return layer;
+}
+
+/**
+ * Reads the config layer set by `--token`, `--chat-id` and `--timeout`.
+ */
+export function getCliOverrides(args: string[]): ProfileConfig {
+  const layer: ProfileConfig = {};
+  const botToken = getArgValue(args, "--token");
+  const chatId = getArgValue(args, "--chat-id");
+  const timeout = getArgValue(args, "--timeout");
+  if (botToken) {
+    layer.botToken = botToken;
+  }
+  if (chatId) {
+    layer.chatId = chatId;
+  }
+  if (timeout) {
+    layer.timeout = parseNumberSetting("timeout", timeout, "--timeout");
+  }
+  return layer;
+}
+
+function applyLayer(
+  resolved: ResolvedConfig,
+  layer: ProfileConfig,
+  source: ConfigLayer
+): void {
+  if (TOKEN_KEYS.some((key) => layer[key] !== undefined)) {
+    for (const key of TOKEN_KEYS) {
+      delete resolved.values[key];
+      delete resolved.sources[key];
+    }
+  }
+
+  for (const key of CONFIG_KEYS) {
+    if (layer[key] !== undefined) {
+      Object.assign(resolved.values, { [key]: layer[key] });
+      resolved.sources[key] = source;
+    }
+  }
+}
+
+/**
+ * Returns the octal mode of a file other users can access, or undefined
+ * when only its owner can. Always undefined on Windows.
+ */
+export async function getSharedMode(path: string): Promise<string | undefined> {
+  if (process.platform === "win32") {
+    return;
+  }
+  const permissions = (await stat(path)).mode % 0o1000;
+  // Any group or other permission bit
+  return permissions % 0o100 === 0 ? undefined : permissions.toString(8);
+}
+
+/**
+ * Warns when config.json can be read by other users; it may hold the bot
+ * token in plaintext.
+ */
+async function warnIfShared(path: string): Promise<void> {
+  const mode = await getSharedMode(path);
+  if (mode) {
+    console.error(
+      `Warning: ${path} is accessible by other users (mode ${mode}). Run: chmod 600 ${path}`
+    );
+  }
+}
+
+async function parseConfigFile(
+  path: string,
+  validate: (value: unknown) => string[],
+  migrate = false
+): Promise<Record<string, unknown>> {
+  let parsed: unknown;
+  try {
+    parsed = await Bun.file(path).json();
+  } catch (error) {
+    throw new Error(
+      `Invalid config at ${path}: not valid JSON (${(error as Error).message})`
+    );
+  }
+
+  let config = parsed as Record<string, unknown>;
+  let migrated = false;
+  if (migrate && isPlainObject(parsed)) {
+    ({ config, migrated } = migrateConfig(config));
+  }
+
+  const errors = validate(config);
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid config at ${path}:\n${errors.map((e) => `  - ${e}`).join("\n")}`
+    );
+  }
+
+  // Persist the upgrade so it only happens once; a read-only file is fine
+  if (migrated) {
+    try {
+      await Bun.write(path, JSON.stringify(config, null, 2));
+    } catch (error) {
+      console.error(
+        `Could not save upgraded config to ${path}:`,
+        (error as Error).message
+      );
+    }
+  }
+  return config;
+}
+
+/**
+ * Reads, migrates and validates config.json. Throws with one line per
+ * problem when the file is malformed or has unknown keys.
+ */
+export async function readStoredConfig(
+  path = CONFIG_FILE
+): Promise<StoredConfig | null> {
+  if (!(await Bun.file(path).exists())) {
+    return null;
+  }
+  await warnIfShared(path);
+  const config = await parseConfigFile(path, validateStoredConfig, true);
+  return config as unknown as StoredConfig;
+}
+
+/**
+ * Merges every config layer and records which one each value came from.
+ * The profile is picked by --profile, then CLAUDE_TELEGRAM_PROFILE, then
+ * the nearest .claude-telegram.json, then the first matching path route.
+ */
+export async function resolveConfig({
+  cwd = process.cwd(),
+  profile,
+  path = CONFIG_FILE,
+  env = process.env,
+  overrides = {},
+}: LoadConfigOptions = {}): Promise<ResolvedConfig> {
+  const stored = await readStoredConfig(path);
+  const project = await findProjectConfig(cwd);
 
-  if (!(await file.exists())) {
+  const profileName =
+    profile ??
+    env.CLAUDE_TELEGRAM_PROFILE ??
+    project?.config.profile ??
+    matchProfileRoute(stored?.profileRoutes, cwd);
+  const profileLayer = profileName ? stored?.profiles?.[profileName] : {};
+  if (!profileLayer) {
+    const known = Object.keys(stored?.profiles ?? {}).join(", ") || "none";
     throw new Error(
-      `Config not found at ${CONFIG_FILE}\nRun 'bun run setup.ts' to configure.`
+      `Unknown profile "${profileName}" (known profiles: ${known}).`
     );
   }
 
-  const stored: StoredConfig = await file.json();
+  const resolved: ResolvedConfig = {
+    values: {},
+    sources: {},
+    profile: profileName,
+    globalPath: stored ? path : undefined,
+    projectPath: project?.path,
+  };
+  applyLayer(resolved, DEFAULTS, "default");
+  applyLayer(resolved, stored ?? {}, "global");
+  applyLayer(resolved, profileLayer, "profile");
+  applyLayer(resolved, project?.config ?? {}, "project");
+  applyLayer(resolved, readEnvLayer(env), "env");
+  applyLayer(resolved, overrides, "cli");
+  return resolved;
+}
+
+export async function loadConfig(
+  options: LoadConfigOptions = {}
+): Promise<TelegramConfig> {
+  const resolved = await resolveConfig(options);
+  const { values } = resolved;
 
-  if (!(stored.botToken && stored.chatId)) {
+  if (values.botTokenRef) {
+    values.botToken = await resolveSecretRef(values.botTokenRef);
+  }
+
+  if (!(values.botToken && values.chatId)) {
     throw new Error(
-      "Invalid config: missing botToken or chatId.\nRun 'bun run setup.ts' to reconfigure."
+      resolved.globalPath
+        ? "Invalid config: missing botToken or chatId.\nRun 'bun run setup.ts' to reconfigure."
+        : `Config not found at ${options.path ?? CONFIG_FILE}\nRun 'bun run setup.ts' to configure, or set TELEGRAM_BOT_TOKEN and TELEGRAM_CHAT_ID.`
     );
   }
 
   return {
-    botToken: stored.botToken,
-    chatId: stored.chatId,
-    timeout: stored.timeout ?? 3600,
-    projectPath: process.cwd(),
+    botToken: values.botToken,
+    chatId: values.chatId,
+    timeout: values.timeout ?? 3600,
+    projectPath: options.cwd ?? process.cwd(),
+    profile: resolved.profile,
+    allowedUserIds: values.allowedUserIds,
+    approverUsernames: values.approverUsernames,
+    timeoutPolicy: values.timeoutPolicy,
+    continueTimeout: values.continueTimeout ?? DEFAULT_CONTINUE_TIMEOUT,
+    events: values.events,
+    failureAlertCooldown:
+      values.failureAlertCooldown ?? DEFAULT_FAILURE_ALERT_COOLDOWN,
   };
 }
 
+/**
+ * Hides a bot token except for the bot ID, which is public anyway.
+ */
+export function redactToken(token: string): string {
+  const [botId] = token.split(":");
+  return `${botId}:****`;
+}
+
+export function redactConfig(values: ProfileConfig): ProfileConfig {
+  return values.botToken
+    ? { ...values, botToken: redactToken(values.botToken) }
+    : values;
+}
+
+export function formatResolvedConfig(resolved: ResolvedConfig): string {
+  const values = redactConfig(resolved.values);
+  const lines = [
+    `Profile:      ${resolved.profile ?? "(default)"}`,
+    `Global file:  ${resolved.globalPath ?? "(none)"}`,
+    `Project file: ${resolved.projectPath ?? "(none)"}`,
+    "",
+  ];
+
+  for (const key of CONFIG_KEYS) {
+    const value = values[key];
+    const shown = value === undefined ? "-" : JSON.stringify(value);
+    lines.push(
+      `${key.padEnd(18)} ${shown.padEnd(30)} ${resolved.sources[key] ?? ""}`.trimEnd()
+    );
+  }
+  return lines.join("\n");
+}
+
 export async function saveConfig(config: StoredConfig): Promise<void> {
-  const { mkdir } = await import("node:fs/promises");
-  await mkdir(CONFIG_DIR, { recursive: true });
-  await Bun.write(CONFIG_FILE, JSON.stringify(config, null, 2));
+  await writePrivateFile(
+    CONFIG_FILE,
+    JSON.stringify({ ...config, version: CONFIG_VERSION }, null, 2)
+  );
 }
 
 export async function configExists(): Promise<boolean> {
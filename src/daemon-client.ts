@@ -0,0 +1,164 @@
+import { getDaemonSocketPath } from "./config";
+import type { TelegramClient } from "./telegram";
+import type {
+  DaemonResponseMessage,
+  DaemonStateMessage,
+  DaemonWaitRequest,
+  PendingRequest,
+  PendingRequestInfo,
+  PendingRequestState,
+  UserResponse,
+} from "./types";
+
+/**
+ * A request waiting for an answer to the message `messageId`. Create it
+ * once and pass it to every wait for that message, so approvals and a
+ * reply in progress survive a reminder.
+ */
+export function createPendingRequest(
+  client: TelegramClient,
+  messageId: number,
+  quorum = 1,
+  info?: PendingRequestInfo
+): PendingRequest {
+  return {
+    messageId,
+    chatId: client.chatId,
+    waitingForText: false,
+    quorum,
+    info,
+    // The daemon may run under another profile
+    allowlist: client.allowlist,
+  };
+}
+
+export function getPendingState(pending: PendingRequest): PendingRequestState {
+  const { waitingForText, promptMessageId, replyParts, approvers } = pending;
+  return { waitingForText, promptMessageId, replyParts, approvers };
+}
+
+// Assigned field by field: JSON drops the ones that were cleared
+function applyPendingState(
+  pending: PendingRequest,
+  state: PendingRequestState
+): void {
+  pending.waitingForText = state.waitingForText;
+  pending.promptMessageId = state.promptMessageId;
+  pending.replyParts = state.replyParts;
+  pending.approvers = state.approvers;
+}
+
+/**
+ * Waits for a response through the daemon, keeping `pending` up to date
+ * with what the daemon reports. Resolves null when no daemon is
+ * listening, or when it goes away before answering.
+ */
+export function waitViaDaemon(
+  pending: PendingRequest,
+  timeoutSeconds: number,
+  socketPath: string
+): Promise<UserResponse | null> {
+  return new Promise((resolve) => {
+    let settled = false;
+    let buffer = "";
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const finish = (response: UserResponse | null) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      resolve(response);
+    };
+
+    Bun.connect({
+      unix: socketPath,
+      socket: {
+        open(socket) {
+          const request: DaemonWaitRequest = { type: "wait", pending };
+          socket.write(`${JSON.stringify(request)}\n`);
+          timer = setTimeout(() => {
+            finish({ type: "timeout" });
+            socket.end();
+          }, timeoutSeconds * 1000);
+        },
+        data(socket, data) {
+          buffer += data.toString();
+          let newline = buffer.indexOf("\n");
+          while (newline !== -1 && !settled) {
+            const line = buffer.slice(0, newline);
+            buffer = buffer.slice(newline + 1);
+            newline = buffer.indexOf("\n");
+
+            // A garbled line counts as no daemon, so the hook polls instead
+            let message: DaemonResponseMessage | DaemonStateMessage;
+            try {
+              message = JSON.parse(line) as typeof message;
+            } catch {
+              finish(null);
+              socket.end();
+              return;
+            }
+            if (message.type === "state") {
+              applyPendingState(pending, message.state);
+            } else {
+              finish(message.response ?? null);
+              socket.end();
+            }
+          }
+        },
+        close() {
+          finish(null);
+        },
+        error() {
+          finish(null);
+        },
+      },
+    }).catch(() => finish(null));
+  });
+}
+
+export async function isDaemonRunning(socketPath: string): Promise<boolean> {
+  try {
+    const socket = await Bun.connect({
+      unix: socketPath,
+      socket: {
+        data() {
+          // Probe only, nothing to read
+        },
+      },
+    });
+    socket.end();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Waits for the user's response, through the daemon when one is running
+ * and by polling Telegram directly otherwise.
+ */
+export async function waitForUserResponse(
+  client: TelegramClient,
+  pending: PendingRequest,
+  timeoutSeconds: number
+): Promise<UserResponse> {
+  const startTime = Date.now();
+
+  const viaDaemon = await waitViaDaemon(
+    pending,
+    timeoutSeconds,
+    getDaemonSocketPath(client.botId)
+  );
+  if (viaDaemon) {
+    return viaDaemon;
+  }
+
+  const elapsedSeconds = (Date.now() - startTime) / 1000;
+  return client.waitForResponse(
+    pending,
+    Math.max(timeoutSeconds - elapsedSeconds, 0)
+  );
+}
@@ -0,0 +1,265 @@
+import { mkdir, rm } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { Socket, UnixSocketListener } from "bun";
+import { CommandRouter, registerCommands } from "./commands";
+import { getDaemonSocketPath } from "./config";
+import { getPendingState, isDaemonRunning } from "./daemon-client";
+import { TelegramClient } from "./telegram";
+import type {
+  DaemonResponseMessage,
+  DaemonStateMessage,
+  DaemonWaitRequest,
+  PendingRequest,
+  TelegramConfig,
+  TelegramMessage,
+  TelegramUpdate,
+  UserResponse,
+} from "./types";
+
+// Taps that arrive before their hook registers are replayed within this window
+const UNMATCHED_TTL_MS = 60_000;
+
+interface SocketState {
+  buffer: string;
+}
+
+function waiterKey(chatId: string | undefined, messageId: number): string {
+  return `${chatId ?? "*"}:${messageId}`;
+}
+
+interface Waiter {
+  socket: Socket<SocketState>;
+  pending: PendingRequest;
+}
+
+/**
+ * Owns getUpdates for a bot and routes updates to hook processes that
+ * registered a pending request over the Unix socket.
+ */
+export class DaemonServer {
+  private readonly client: TelegramClient;
+  private readonly socketPath: string;
+  private readonly commands: CommandRouter | undefined;
+  // Keyed by waiterKey(), since message IDs are only unique per chat
+  private readonly waiters = new Map<string, Waiter>();
+  private unmatched: { update: TelegramUpdate; receivedAt: number }[] = [];
+  private listener: UnixSocketListener<SocketState> | undefined;
+  private running = false;
+
+  constructor(
+    client: TelegramClient,
+    socketPath = getDaemonSocketPath(client.botId),
+    commands?: CommandRouter
+  ) {
+    this.client = client;
+    this.socketPath = socketPath;
+    this.commands = commands;
+  }
+
+  get pendingCount(): number {
+    return this.waiters.size;
+  }
+
+  get pendingRequests(): PendingRequest[] {
+    return [...this.waiters.values()].map((waiter) => waiter.pending);
+  }
+
+  async start(): Promise<void> {
+    if (await isDaemonRunning(this.socketPath)) {
+      throw new Error(`A daemon is already running on ${this.socketPath}`);
+    }
+
+    // A socket file left behind by a crashed daemon blocks listen()
+    await mkdir(dirname(this.socketPath), { recursive: true });
+    await rm(this.socketPath, { force: true });
+
+    this.listener = Bun.listen<SocketState>({
+      unix: this.socketPath,
+      socket: {
+        open: (socket) => {
+          socket.data = { buffer: "" };
+        },
+        data: (socket, data) => this.handleData(socket, data.toString()),
+        close: (socket) => this.dropSocket(socket),
+        error: (socket) => this.dropSocket(socket),
+      },
+    });
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    this.listener?.stop(true);
+    this.listener = undefined;
+    await rm(this.socketPath, { force: true });
+  }
+
+  async run(): Promise<void> {
+    this.running = true;
+    await this.client.clearPendingUpdates();
+
+    while (this.running) {
+      let updates: TelegramUpdate[];
+      try {
+        updates = await this.client.pollUpdates(25);
+      } catch (error) {
+        console.error("Polling failed:", (error as Error).message);
+        await Bun.sleep(1000);
+        continue;
+      }
+
+      // The batch is already acknowledged, so one failing update must not
+      // drop the ones after it
+      for (const update of updates) {
+        try {
+          await this.dispatch(update);
+        } catch (error) {
+          console.error(
+            `Failed to handle update ${update.update_id}:`,
+            (error as Error).message
+          );
+        }
+      }
+    }
+  }
+
+  async dispatch(update: TelegramUpdate): Promise<void> {
+    if (await this.commands?.handle(update, this.pendingRequests)) {
+      return;
+    }
+
+    const callbackMessage = update.callback_query?.message;
+    if (callbackMessage && !this.findWaiterKey(callbackMessage)) {
+      this.rememberUnmatched(update);
+      return;
+    }
+
+    for (const [key, waiter] of this.waiters) {
+      const before = JSON.stringify(getPendingState(waiter.pending));
+      const response = await this.client.handleUpdate(update, waiter.pending);
+      if (response) {
+        this.resolve(key, response);
+        return;
+      }
+      this.sendStateIfChanged(waiter, before);
+    }
+  }
+
+  private findWaiterKey(message: TelegramMessage): string | undefined {
+    return [
+      waiterKey(String(message.chat.id), message.message_id),
+      waiterKey(undefined, message.message_id),
+    ].find((key) => this.waiters.has(key));
+  }
+
+  private handleData(socket: Socket<SocketState>, chunk: string): void {
+    socket.data.buffer += chunk;
+
+    let newline = socket.data.buffer.indexOf("\n");
+    while (newline !== -1) {
+      const line = socket.data.buffer.slice(0, newline);
+      socket.data.buffer = socket.data.buffer.slice(newline + 1);
+      newline = socket.data.buffer.indexOf("\n");
+
+      try {
+        const request = JSON.parse(line) as DaemonWaitRequest;
+        if (request.type === "wait" && request.pending) {
+          this.register(socket, request).catch((error) =>
+            console.error("Replay failed:", (error as Error).message)
+          );
+        }
+      } catch {
+        socket.end();
+        return;
+      }
+    }
+  }
+
+  private async register(
+    socket: Socket<SocketState>,
+    request: DaemonWaitRequest
+  ): Promise<void> {
+    const { messageId, chatId } = request.pending;
+    this.waiters.set(waiterKey(chatId, messageId), {
+      socket,
+      pending: request.pending,
+    });
+
+    const replay = this.unmatched.filter((entry) => {
+      const message = entry.update.callback_query?.message;
+      return (
+        message?.message_id === messageId &&
+        (chatId === undefined || String(message.chat.id) === chatId)
+      );
+    });
+    this.unmatched = this.unmatched.filter((entry) => !replay.includes(entry));
+
+    for (const entry of replay) {
+      await this.dispatch(entry.update);
+    }
+  }
+
+  private resolve(key: string, response: UserResponse): void {
+    const waiter = this.waiters.get(key);
+    if (!waiter) {
+      return;
+    }
+
+    this.waiters.delete(key);
+    const message: DaemonResponseMessage = { type: "response", response };
+    waiter.socket.write(`${JSON.stringify(message)}\n`);
+    waiter.socket.end();
+  }
+
+  /**
+   * Tells the hook what an update changed, e.g. a quorum approval or a
+   * reply part, so it can pick up from there if it waits again.
+   */
+  private sendStateIfChanged(waiter: Waiter, before: string): void {
+    const state = getPendingState(waiter.pending);
+    if (JSON.stringify(state) === before) {
+      return;
+    }
+    const message: DaemonStateMessage = { type: "state", state };
+    waiter.socket.write(`${JSON.stringify(message)}\n`);
+  }
+
+  private dropSocket(socket: Socket<SocketState>): void {
+    for (const [key, waiter] of this.waiters) {
+      if (waiter.socket === socket) {
+        this.waiters.delete(key);
+      }
+    }
+  }
+
+  private rememberUnmatched(update: TelegramUpdate): void {
+    const now = Date.now();
+    this.unmatched = this.unmatched.filter(
+      (entry) => now - entry.receivedAt < UNMATCHED_TTL_MS
+    );
+    this.unmatched.push({ update, receivedAt: now });
+  }
+}
+
+export async function runDaemon(config: TelegramConfig): Promise<void> {
+  const client = new TelegramClient(config);
+  const socketPath = getDaemonSocketPath(client.botId);
+  const commands = new CommandRouter(client, {
+    mode: "daemon",
+    startedAt: Date.now(),
+    config,
+  });
+  const server = new DaemonServer(client, socketPath, commands);
+  await server.start();
+
+  await registerCommands(client);
+
+  const shutdown = async () => {
+    await server.stop();
+    process.exit(0);
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+
+  console.log(`claude-telegram daemon listening on ${socketPath}`);
+  await server.run();
+}
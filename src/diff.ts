@@ -0,0 +1,151 @@
+const CONTEXT_LINES = 3;
+// Above this many LCS cells, fall back to a plain remove-all/add-all diff
+const MAX_LCS_CELLS = 4_000_000;
+
+interface DiffOp {
+  type: " " | "-" | "+";
+  line: string;
+}
+
+export interface EditChange {
+  oldString: string;
+  newString: string;
+}
+
+function splitLines(text: string): string[] {
+  if (!text) {
+    return [];
+  }
+  const lines = text.split("\n");
+  if (lines.at(-1) === "") {
+    lines.pop();
+  }
+  return lines;
+}
+
+// table[i * (m + 1) + j] = LCS length of oldLines[i..] and newLines[j..]
+function buildLcsTable(oldLines: string[], newLines: string[]): Uint32Array {
+  const width = newLines.length + 1;
+  const table = new Uint32Array((oldLines.length + 1) * width);
+  const at = (i: number, j: number) => table[i * width + j] ?? 0;
+
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      table[i * width + j] =
+        oldLines[i] === newLines[j]
+          ? at(i + 1, j + 1) + 1
+          : Math.max(at(i + 1, j), at(i, j + 1));
+    }
+  }
+
+  return table;
+}
+
+function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+  const removeAll = oldLines.map((line): DiffOp => ({ type: "-", line }));
+  const addAll = newLines.map((line): DiffOp => ({ type: "+", line }));
+
+  if (oldLines.length * newLines.length > MAX_LCS_CELLS) {
+    return [...removeAll, ...addAll];
+  }
+
+  const width = newLines.length + 1;
+  const table = buildLcsTable(oldLines, newLines);
+  const at = (i: number, j: number) => table[i * width + j] ?? 0;
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length && j < newLines.length) {
+    const oldLine = oldLines[i] ?? "";
+    const newLine = newLines[j] ?? "";
+    if (oldLine === newLine) {
+      ops.push({ type: " ", line: oldLine });
+      i++;
+      j++;
+    } else if (at(i + 1, j) >= at(i, j + 1)) {
+      ops.push({ type: "-", line: oldLine });
+      i++;
+    } else {
+      ops.push({ type: "+", line: newLine });
+      j++;
+    }
+  }
+
+  return [...ops, ...removeAll.slice(i), ...addAll.slice(j)];
+}
+
+function formatHunks(ops: DiffOp[]): string[] {
+  const ranges: { start: number; end: number }[] = [];
+  ops.forEach((op, index) => {
+    if (op.type === " ") {
+      return;
+    }
+    const start = Math.max(0, index - CONTEXT_LINES);
+    const end = Math.min(ops.length, index + CONTEXT_LINES + 1);
+    const last = ranges.at(-1);
+    if (last && start <= last.end) {
+      last.end = end;
+    } else {
+      ranges.push({ start, end });
+    }
+  });
+
+  // 1-based line numbers at the start of each op
+  const oldLineAt: number[] = [];
+  const newLineAt: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const op of ops) {
+    oldLineAt.push(oldLine);
+    newLineAt.push(newLine);
+    if (op.type !== "+") {
+      oldLine++;
+    }
+    if (op.type !== "-") {
+      newLine++;
+    }
+  }
+
+  return ranges.map(({ start, end }) => {
+    const slice = ops.slice(start, end);
+    const oldCount = slice.filter((op) => op.type !== "+").length;
+    const newCount = slice.filter((op) => op.type !== "-").length;
+    const header = `@@ -${oldLineAt[start]},${oldCount} +${newLineAt[start]},${newCount} @@`;
+    return [header, ...slice.map((op) => `${op.type}${op.line}`)].join("\n");
+  });
+}
+
+/**
+ * Builds a unified diff for one or more replacements in a file. Line numbers
+ * are relative to each replaced snippet, since Edit inputs carry no offsets.
+ */
+export function createUnifiedDiff(
+  filePath: string,
+  changes: EditChange[]
+): string {
+  const hunks = changes.flatMap((change) =>
+    formatHunks(
+      diffLines(splitLines(change.oldString), splitLines(change.newString))
+    )
+  );
+
+  return [`--- a/${filePath}`, `+++ b/${filePath}`, ...hunks].join("\n");
+}
+
+export function countDiffChanges(diff: string): {
+  added: number;
+  removed: number;
+} {
+  let added = 0;
+  let removed = 0;
+  // Skip the ---/+++ file header
+  for (const line of diff.split("\n").slice(2)) {
+    if (line.startsWith("+")) {
+      added++;
+    } else if (line.startsWith("-")) {
+      removed++;
+    }
+  }
+  return { added, removed };
+}
@@ -0,0 +1,267 @@
+import {
+  getConfigPath,
+  getSecretsPath,
+  getSharedMode,
+  type LoadConfigOptions,
+  loadConfig,
+} from "./config";
+import {
+  getCommandProgram,
+  getHooksStatus,
+  type HooksStatus,
+} from "./settings";
+import { TelegramClient } from "./telegram";
+import type { TelegramConfig, TelegramWebhookInfo } from "./types";
+
+export type CheckStatus = "pass" | "warn" | "fail";
+
+export interface CheckResult {
+  name: string;
+  status: CheckStatus;
+  message: string;
+  // What to do about a warning or failure
+  fix?: string;
+}
+
+export type DoctorOptions = Pick<
+  LoadConfigOptions,
+  "cwd" | "profile" | "overrides"
+>;
+
+const TELEGRAM_API_ERROR = "Telegram API error";
+
+function pass(name: string, message: string): CheckResult {
+  return { name, status: "pass", message };
+}
+
+function warn(name: string, message: string, fix: string): CheckResult {
+  return { name, status: "warn", message, fix };
+}
+
+function fail(name: string, message: string, fix: string): CheckResult {
+  return { name, status: "fail", message, fix };
+}
+
+/**
+ * Checks that files holding the token are private. `modes` maps each
+ * existing file to its shared mode, or undefined when it's private.
+ */
+export function checkPermissions(
+  modes: Record<string, string | undefined>
+): CheckResult {
+  if (Object.keys(modes).length === 0) {
+    return pass("Permissions", "No config files to check");
+  }
+  const shared = Object.entries(modes).filter(([, mode]) => mode);
+  if (shared.length === 0) {
+    return pass("Permissions", "Config files are only readable by you");
+  }
+  return warn(
+    "Permissions",
+    shared
+      .map(
+        ([path, mode]) => `${path} is accessible by other users (mode ${mode})`
+      )
+      .join("; "),
+    `chmod 600 ${shared.map(([path]) => path).join(" ")}`
+  );
+}
+
+export function checkWebhook(info: TelegramWebhookInfo): CheckResult {
+  if (!info.url) {
+    return pass("Webhook", "No webhook set; getUpdates can receive replies");
+  }
+  return fail(
+    "Webhook",
+    `A webhook is set (${info.url}), so getUpdates never sees button taps`,
+    'Remove it with: curl "https://api.telegram.org/bot<token>/deleteWebhook"'
+  );
+}
+
+/**
+ * Checks that some settings file has claude-telegram hooks and that each
+ * one runs a program that exists. `which` resolves a program to a path.
+ */
+export function checkHooks(
+  statuses: HooksStatus[],
+  which: (program: string) => string | null
+): CheckResult {
+  const broken = statuses.find((status) => status.error);
+  if (broken?.error) {
+    return fail("Hooks", broken.error, `Fix the JSON syntax in ${broken.path}`);
+  }
+
+  const installed = statuses.filter((status) => status.hooks.length > 0);
+  if (installed.length === 0) {
+    return warn(
+      "Hooks",
+      "No claude-telegram hooks in any settings file",
+      "claude-telegram --hooks install"
+    );
+  }
+
+  const missing = installed.flatMap((status) =>
+    status.hooks
+      .map((hook) => getCommandProgram(hook.command))
+      .filter((program) => !which(program))
+  );
+  if (missing.length > 0) {
+    return fail(
+      "Hooks",
+      `Hook command not found on PATH: ${[...new Set(missing)].join(", ")}`,
+      "Install claude-telegram globally (bun add -g @arthurbm/claude-telegram), or put the binary on PATH"
+    );
+  }
+
+  const where = installed
+    .map((status) => `${status.scope} (${status.hooks.length})`)
+    .join(", ");
+  return pass("Hooks", `Installed in ${where}`);
+}
+
+export function checkGit(gitPath: string | null): CheckResult {
+  return gitPath
+    ? pass("git", `Found at ${gitPath}`)
+    : warn(
+        "git",
+        "git not found; notifications won't show the branch",
+        "Install git and make sure it's on PATH"
+      );
+}
+
+async function checkConfig(
+  options: DoctorOptions
+): Promise<{ result: CheckResult; config?: TelegramConfig }> {
+  try {
+    const config = await loadConfig(options);
+    const profile = config.profile ? ` (profile ${config.profile})` : "";
+    return { result: pass("Config", `Loaded${profile}`), config };
+  } catch (error) {
+    return {
+      result: fail(
+        "Config",
+        (error as Error).message.split("\n")[0] ?? "Config failed to load",
+        "Run claude-telegram --setup, or claude-telegram --config validate for details"
+      ),
+    };
+  }
+}
+
+async function readSharedModes(): Promise<Record<string, string | undefined>> {
+  const modes: Record<string, string | undefined> = {};
+  for (const path of [getConfigPath(), getSecretsPath()]) {
+    if (await Bun.file(path).exists()) {
+      modes[path] = await getSharedMode(path);
+    }
+  }
+  return modes;
+}
+
+async function checkToken(client: TelegramClient): Promise<CheckResult> {
+  try {
+    const me = await client.getMe();
+    return pass("Bot token", `Valid, bot is @${me.username}`);
+  } catch (error) {
+    const { message } = error as Error;
+    // API errors carry Telegram's description; anything else is network
+    if (!message.startsWith(TELEGRAM_API_ERROR)) {
+      return fail(
+        "Bot token",
+        `Can't reach api.telegram.org: ${message}`,
+        "Check your network connection, proxy or firewall"
+      );
+    }
+    return fail(
+      "Bot token",
+      message,
+      "Check botToken, or get a new token from @BotFather with /token"
+    );
+  }
+}
+
+async function checkChat(client: TelegramClient): Promise<CheckResult> {
+  let title: string;
+  try {
+    const chat = await client.getChat();
+    title = chat.title ?? chat.username ?? chat.first_name ?? String(chat.id);
+  } catch (error) {
+    return fail(
+      "Chat",
+      `Chat ${client.chatId} is unreachable: ${(error as Error).message}`,
+      "Send the bot a message from that chat (or add it to the group), then check chatId with claude-telegram --config show"
+    );
+  }
+
+  try {
+    await client.sendChatAction();
+    return pass("Chat", `Bot can post in "${title}"`);
+  } catch (error) {
+    return fail(
+      "Chat",
+      `Bot can't post in "${title}": ${(error as Error).message}`,
+      "Give the bot permission to send messages in that chat"
+    );
+  }
+}
+
+async function checkTelegram(client: TelegramClient): Promise<CheckResult[]> {
+  const token = await checkToken(client);
+  // Every other API call fails the same way with a bad token
+  if (token.status === "fail") {
+    return [token];
+  }
+
+  let webhook: CheckResult;
+  try {
+    webhook = checkWebhook(await client.getWebhookInfo());
+  } catch (error) {
+    webhook = warn(
+      "Webhook",
+      `Couldn't read webhook info: ${(error as Error).message}`,
+      "Retry claude-telegram doctor"
+    );
+  }
+  return [token, await checkChat(client), webhook];
+}
+
+/**
+ * Runs every check in order. Telegram checks only run once the config
+ * loads, since they need its token and chat.
+ */
+export async function runDoctorChecks(
+  options: DoctorOptions = {}
+): Promise<CheckResult[]> {
+  const { result, config } = await checkConfig(options);
+  const results = [result, checkPermissions(await readSharedModes())];
+
+  if (config) {
+    results.push(...(await checkTelegram(new TelegramClient(config))));
+  }
+
+  results.push(
+    checkHooks(await getHooksStatus(options.cwd), Bun.which),
+    checkGit(Bun.which("git"))
+  );
+  return results;
+}
+
+const STATUS_LABELS: Record<CheckStatus, string> = {
+  pass: "[pass]",
+  warn: "[warn]",
+  fail: "[FAIL]",
+};
+
+export function formatCheckResults(results: CheckResult[]): string {
+  const lines = results.flatMap((result) => {
+    const line = `${STATUS_LABELS[result.status]} ${result.name}: ${result.message}`;
+    return result.fix ? [line, `       Fix: ${result.fix}`] : [line];
+  });
+
+  const count = (status: CheckStatus) =>
+    results.filter((result) => result.status === status).length;
+  lines.push(
+    "",
+    `${count("pass")} passed, ${count("warn")} warning(s), ${count("fail")} failed`
+  );
+  return lines.join("\n");
+}
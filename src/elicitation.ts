@@ -0,0 +1,151 @@
+import type {
+  ClaudeHookInput,
+  ClaudeHookOutput,
+  ElicitationAction,
+  ElicitationChoice,
+  ElicitationHookSpecificOutput,
+  ElicitationProperty,
+  UserResponse,
+} from "./types";
+
+/**
+ * What can be answered from Telegram: a single-field form, with buttons
+ * when the field has fixed values, or an open question without a schema,
+ * which can only be accepted or declined.
+ * Forms with several fields are left to the terminal.
+ */
+export interface ElicitationRequest {
+  question: string;
+  field?: { name: string; property: ElicitationProperty };
+  choices: ElicitationChoice[];
+  supported: boolean;
+}
+
+const YES = ["yes", "y", "true"];
+const NO = ["no", "n", "false"];
+
+export function getChoices(property: ElicitationProperty): ElicitationChoice[] {
+  if (property.oneOf) {
+    return property.oneOf.map((option) => ({
+      label: option.title ?? String(option.const),
+      value: option.const,
+    }));
+  }
+  if (property.enum) {
+    return property.enum.map((value, index) => ({
+      label: property.enumNames?.[index] ?? String(value),
+      value,
+    }));
+  }
+  if (property.type === "boolean") {
+    return [
+      { label: "Yes", value: true },
+      { label: "No", value: false },
+    ];
+  }
+  return [];
+}
+
+export function parseElicitation(input: ClaudeHookInput): ElicitationRequest {
+  const question = input.message ?? "";
+  const properties = Object.entries(input.requested_schema?.properties ?? {});
+  const [first] = properties;
+
+  if (!first) {
+    return { question, choices: [], supported: true };
+  }
+  if (properties.length > 1) {
+    return { question, choices: [], supported: false };
+  }
+
+  const [name, property] = first;
+  const detail = property.description ?? property.title;
+  return {
+    question: detail ? `${question}\n\n${detail}` : question,
+    field: { name, property },
+    choices: getChoices(property),
+    supported: true,
+  };
+}
+
+/**
+ * Turns a typed answer into the field's type. Text matching a choice's
+ * label counts as that choice. Returns undefined when it doesn't fit.
+ */
+export function coerceAnswer(
+  text: string,
+  request: ElicitationRequest
+): string | number | boolean | undefined {
+  const answer = text.trim();
+  const choice = request.choices.find(
+    (option) => option.label.toLowerCase() === answer.toLowerCase()
+  );
+  if (choice) {
+    return choice.value;
+  }
+
+  switch (request.field?.property.type) {
+    case "number":
+    case "integer": {
+      const value = Number(answer);
+      return answer && Number.isFinite(value) ? value : undefined;
+    }
+    case "boolean":
+      if (YES.includes(answer.toLowerCase())) {
+        return true;
+      }
+      return NO.includes(answer.toLowerCase()) ? false : undefined;
+    default:
+      return answer;
+  }
+}
+
+type ElicitationOutput = ClaudeHookOutput<ElicitationHookSpecificOutput>;
+
+function elicitationOutput(
+  action: ElicitationAction,
+  content?: Record<string, string | number | boolean>
+): ElicitationOutput {
+  return {
+    hookSpecificOutput: { hookEventName: "Elicitation", action, content },
+  };
+}
+
+/**
+ * Maps a Telegram response to an Elicitation hook result. Skip and Deny
+ * decline; an answer that doesn't fit the field cancels. Open questions
+ * have no field to carry an answer, so only a tap accepts. A timeout
+ * returns null: with no output, Claude Code asks in the terminal.
+ */
+export function buildElicitationOutput(
+  response: UserResponse,
+  request: ElicitationRequest
+): ElicitationOutput | null {
+  const name = request.field?.name;
+  let value: string | number | boolean | undefined;
+  switch (response.type) {
+    case "choice":
+      if (!name) {
+        return elicitationOutput("accept");
+      }
+      value = request.choices[response.index]?.value;
+      break;
+    case "text":
+      value = name ? coerceAnswer(response.content, request) : undefined;
+      break;
+    case "approve":
+      return elicitationOutput("accept");
+    case "skip":
+    case "deny":
+      return elicitationOutput("decline");
+    case "timeout":
+      return null;
+    default:
+      return elicitationOutput("cancel");
+  }
+
+  if (name === undefined || value === undefined) {
+    return elicitationOutput("cancel");
+  }
+  return elicitationOutput("accept", { [name]: value });
+}
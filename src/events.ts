@@ -0,0 +1,139 @@
+import { formatDuration } from "./timeouts";
+import type { ClaudeHookInput, LifecycleEvent, TelegramConfig } from "./types";
+
+export const LIFECYCLE_EVENTS: LifecycleEvent[] = [
+  "SubagentStop",
+  "SessionStart",
+  "SessionEnd",
+  "PreCompact",
+  "PostToolUse",
+];
+
+export interface LifecycleMessage {
+  eventType: string;
+  message: string;
+}
+
+type SessionSource = NonNullable<ClaudeHookInput["source"]>;
+
+const SESSION_START_MESSAGES: Record<SessionSource, string> = {
+  startup: "New session started.",
+  resume: "Session resumed.",
+  clear: "Session cleared with /clear.",
+  compact: "Session continues after compacting.",
+};
+
+export function isLifecycleEvent(name: string): name is LifecycleEvent {
+  return LIFECYCLE_EVENTS.includes(name as LifecycleEvent);
+}
+
+/**
+ * Parses an `--events` value: event names separated by commas, or "all".
+ */
+export function parseEventList(value: string | undefined): LifecycleEvent[] {
+  if (!value) {
+    return [];
+  }
+  if (value === "all") {
+    return [...LIFECYCLE_EVENTS];
+  }
+
+  const names = value
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+  const unknown = names.filter((name) => !isLifecycleEvent(name));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown event ${unknown.join(", ")}. --events takes ${LIFECYCLE_EVENTS.join(", ")} separated by commas, or all.`
+    );
+  }
+  return names as LifecycleEvent[];
+}
+
+// Installing the hook opts in; the config can mute an event, e.g. per project
+export function isEventEnabled(
+  config: TelegramConfig,
+  event: LifecycleEvent
+): boolean {
+  return config.events?.[event] ?? true;
+}
+
+export function getMutedEvents(config: TelegramConfig): LifecycleEvent[] {
+  return LIFECYCLE_EVENTS.filter((event) => !isEventEnabled(config, event));
+}
+
+function formatElapsed(ms: number): string {
+  return formatDuration(Math.round(ms / 1000));
+}
+
+function describeSessionStart(
+  input: ClaudeHookInput,
+  sessionMs?: number
+): string {
+  const message = SESSION_START_MESSAGES[input.source ?? "startup"];
+  // A new session has only just begun, so its age says nothing
+  if (input.source === "startup" || sessionMs === undefined) {
+    return message;
+  }
+  return `${message} Running for ${formatElapsed(sessionMs)}.`;
+}
+
+function describeSessionEnd(
+  input: ClaudeHookInput,
+  sessionMs?: number
+): string {
+  const reason =
+    input.reason && input.reason !== "other"
+      ? ` (${input.reason.replaceAll("_", " ")})`
+      : "";
+  return sessionMs === undefined
+    ? `Session ended${reason}.`
+    : `Session ended after ${formatElapsed(sessionMs)}${reason}.`;
+}
+
+function describePreCompact(input: ClaudeHookInput): string {
+  const message =
+    input.trigger === "manual"
+      ? "Compacting the conversation (/compact)."
+      : "The context window is full, so Claude Code is compacting the conversation. Details from earlier in the session may be summarized away.";
+  return input.custom_instructions
+    ? `${message}\n\nInstructions: ${input.custom_instructions}`
+    : message;
+}
+
+/**
+ * Describes a lifecycle event for its notification. `sessionMs` is how
+ * long the session has been running, when the transcript tells.
+ * PostToolUse alerts are built from the failure instead.
+ */
+export function describeLifecycleEvent(
+  event: Exclude<LifecycleEvent, "PostToolUse">,
+  input: ClaudeHookInput,
+  sessionMs?: number
+): LifecycleMessage {
+  switch (event) {
+    case "SubagentStop": {
+      const name = input.agent_type ?? input.agent_id;
+      return {
+        eventType: "Subagent Finished",
+        message: name ? `Subagent ${name} done.` : "A subagent is done.",
+      };
+    }
+    case "SessionStart":
+      return {
+        eventType: "Session Started",
+        message: describeSessionStart(input, sessionMs),
+      };
+    case "SessionEnd":
+      return {
+        eventType: "Session Ended",
+        message: describeSessionEnd(input, sessionMs),
+      };
+    default:
+      return {
+        eventType: "Compacting Context",
+        message: describePreCompact(input),
+      };
+  }
+}
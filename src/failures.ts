@@ -0,0 +1,155 @@
+import { getAlertsPath } from "./config";
+import { withFileLock, writeFileAtomic } from "./state-file";
+import type { AlertState, ClaudeHookInput, ToolFailure } from "./types";
+
+const TAIL_LINES = 12;
+const MAX_TAIL_LENGTH = 800;
+// Keys tools use for an exit status
+const EXIT_CODE_KEYS = ["exit_code", "exitCode", "returnCode"];
+// A runner's summary with a non-zero failure count, e.g. "3 failed",
+// "1 failing", or a jest/go "FAIL" line
+const TEST_FAILURES =
+  /\b[1-9]\d* (?:fail|failed|failing|failures?)\b|^FAIL\b/im;
+// Some mention of tests, so "2 failed" in unrelated output doesn't count
+const TEST_OUTPUT = /\b(?:tests?|specs?|pytest)\b/i;
+// Sessions without a failure for this long are forgotten
+const STATE_TTL_MS = 24 * 60 * 60 * 1000;
+
+function asText(value: unknown): string {
+  return typeof value === "string" ? value : "";
+}
+
+function getExitCode(response: Record<string, unknown>): number | undefined {
+  for (const key of EXIT_CODE_KEYS) {
+    const value = response[key];
+    if (typeof value === "number") {
+      return value;
+    }
+  }
+}
+
+/**
+ * The last lines of some output, capped in length so an alert stays
+ * readable. Returns undefined for blank output.
+ */
+export function tailLines(
+  text: string,
+  lines = TAIL_LINES,
+  maxLen = MAX_TAIL_LENGTH
+): string | undefined {
+  const tail = text.trimEnd().split("\n").slice(-lines).join("\n");
+  if (!tail.trim()) {
+    return;
+  }
+  return tail.length > maxLen ? `…${tail.slice(-maxLen)}` : tail;
+}
+
+function getFailureReason(input: ClaudeHookInput): string | undefined {
+  const response = input.tool_response ?? {};
+  if (input.hook_event_name === "PostToolUseFailure" || input.error) {
+    return "Tool failed";
+  }
+  if (response.is_error === true) {
+    return "Tool returned an error";
+  }
+
+  const exitCode = getExitCode(response);
+  if (exitCode !== undefined && exitCode !== 0) {
+    return `Exit code ${exitCode}`;
+  }
+
+  const output = `${asText(response.stdout)}\n${asText(response.stderr)}`;
+  if (
+    input.tool_name === "Bash" &&
+    TEST_FAILURES.test(output) &&
+    TEST_OUTPUT.test(output)
+  ) {
+    return "Tests failed";
+  }
+}
+
+/**
+ * Checks a PostToolUse (or PostToolUseFailure) input for a failed run.
+ * Returns null when the tool succeeded.
+ */
+export function detectFailure(input: ClaudeHookInput): ToolFailure | null {
+  const reason = getFailureReason(input);
+  if (!reason) {
+    return null;
+  }
+
+  const response = input.tool_response ?? {};
+  const target = input.tool_input?.command ?? input.tool_input?.file_path;
+  const output =
+    asText(response.stderr) ||
+    asText(response.stdout) ||
+    input.error ||
+    asText(response.error) ||
+    asText(response.content);
+
+  return {
+    toolName: input.tool_name ?? "tool",
+    reason,
+    target: typeof target === "string" ? target : undefined,
+    output: tailLines(output),
+  };
+}
+
+export async function loadAlertStates(
+  path = getAlertsPath()
+): Promise<Record<string, AlertState>> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) {
+    return {};
+  }
+
+  try {
+    return (await file.json()) as Record<string, AlertState>;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Decides whether a session's failure gets an alert. Within the cooldown
+ * the failure is only counted; the next alert reports how many were
+ * held back. `suppressed` is that count when `send` is true. Parallel
+ * hooks take turns through a lock file, so only one of them alerts.
+ */
+export function claimAlert(
+  sessionId: string,
+  cooldownSeconds: number,
+  path = getAlertsPath(),
+  now = Date.now()
+): Promise<{ send: boolean; suppressed: number }> {
+  return withFileLock(path, () =>
+    updateAlertState(sessionId, cooldownSeconds, path, now)
+  );
+}
+
+async function updateAlertState(
+  sessionId: string,
+  cooldownSeconds: number,
+  path: string,
+  now: number
+): Promise<{ send: boolean; suppressed: number }> {
+  const states = await loadAlertStates(path);
+  const state = states[sessionId];
+
+  let result: { send: boolean; suppressed: number };
+  if (state && now - state.lastAlertAt < cooldownSeconds * 1000) {
+    state.suppressed += 1;
+    result = { send: false, suppressed: state.suppressed };
+  } else {
+    states[sessionId] = { lastAlertAt: now, suppressed: 0 };
+    result = { send: true, suppressed: state?.suppressed ?? 0 };
+  }
+
+  const kept = Object.fromEntries(
+    Object.entries(states).filter(
+      ([, entry]) => now - entry.lastAlertAt < STATE_TTL_MS
+    )
+  );
+  await writeFileAtomic(path, JSON.stringify(kept, null, 2));
+  return result;
+}
@@ -0,0 +1,424 @@
+import { basename, isAbsolute, relative } from "node:path";
+import { countDiffChanges, createUnifiedDiff, type EditChange } from "./diff";
+import { formatDuration } from "./timeouts";
+import type {
+  ApprovalOutcome,
+  DocumentAttachment,
+  GrantScope,
+  NotificationContext,
+  Responder,
+  ToolFailure,
+  TurnSummary,
+} from "./types";
+
+const MAX_MESSAGE_LENGTH = 2000;
+const MAX_FIELD_LENGTH = 1000;
+// Leaves room for the header within Telegram's 4096-char message limit
+const MAX_INLINE_DIFF_LENGTH = 3000;
+const WRITE_PREVIEW_LINES = 20;
+const MAX_REPLY_PREVIEW_LENGTH = 200;
+const MAX_SUMMARY_MESSAGE_LENGTH = 1500;
+const MAX_SUMMARY_FILES = 10;
+const MAX_COMMAND_PREVIEW_LENGTH = 200;
+const MAX_REQUEST_SUMMARY_LENGTH = 60;
+
+const REMEMBERED_LABELS: Record<GrantScope, string> = {
+  session: "Allowed for this session",
+  project: "Always allowed in this project",
+};
+
+/**
+ * Renders a tool's `tool_input` as Telegram HTML.
+ */
+export type ToolInputFormatter = (toolInput: Record<string, unknown>) => string;
+
+const toolFormatters = new Map<string, ToolInputFormatter>();
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+export function truncate(text: string, maxLen: number): string {
+  if (text.length <= maxLen) {
+    return text;
+  }
+  return `${text.substring(0, maxLen)}...`;
+}
+
+function stringField(
+  toolInput: Record<string, unknown>,
+  key: string
+): string | undefined {
+  const value = toolInput[key];
+  return typeof value === "string" ? value : undefined;
+}
+
+function numberField(
+  toolInput: Record<string, unknown>,
+  key: string
+): number | undefined {
+  const value = toolInput[key];
+  return typeof value === "number" ? value : undefined;
+}
+
+function formatFilePath(toolInput: Record<string, unknown>): string {
+  const filePath = stringField(toolInput, "file_path") ?? "(unknown file)";
+  return `<b>File:</b> <code>${escapeHtml(filePath)}</code>\n`;
+}
+
+function formatBlock(text: string, language?: string): string {
+  const escaped = escapeHtml(truncate(text, MAX_FIELD_LENGTH));
+  if (language) {
+    return `<pre><code class="language-${language}">${escaped}</code></pre>`;
+  }
+  return `<pre>${escaped}</pre>`;
+}
+
+function formatBash(toolInput: Record<string, unknown>): string {
+  let msg = "";
+
+  const description = stringField(toolInput, "description");
+  if (description) {
+    msg += `<i>${escapeHtml(description)}</i>\n`;
+  }
+
+  msg += formatBlock(stringField(toolInput, "command") ?? "", "bash");
+  return msg;
+}
+
+function editChanges(
+  toolName: string | undefined,
+  toolInput: Record<string, unknown>
+): EditChange[] | undefined {
+  if (toolName === "Edit") {
+    return [
+      {
+        oldString: stringField(toolInput, "old_string") ?? "",
+        newString: stringField(toolInput, "new_string") ?? "",
+      },
+    ];
+  }
+
+  if (toolName === "MultiEdit" && Array.isArray(toolInput.edits)) {
+    return toolInput.edits.map((edit: Record<string, unknown>) => ({
+      oldString: stringField(edit, "old_string") ?? "",
+      newString: stringField(edit, "new_string") ?? "",
+    }));
+  }
+
+  return;
+}
+
+function buildEditDiff(
+  toolName: string | undefined,
+  toolInput: Record<string, unknown>
+): string | undefined {
+  const changes = editChanges(toolName, toolInput);
+  if (!changes) {
+    return;
+  }
+  const filePath = stringField(toolInput, "file_path") ?? "file";
+  return createUnifiedDiff(filePath, changes);
+}
+
+function formatEditDiff(
+  toolName: string,
+  toolInput: Record<string, unknown>
+): string {
+  let msg = formatFilePath(toolInput);
+
+  if (toolInput.replace_all === true) {
+    msg += "<i>Replacing all occurrences</i>\n";
+  }
+
+  const diff = buildEditDiff(toolName, toolInput) ?? "";
+  if (diff.length <= MAX_INLINE_DIFF_LENGTH) {
+    return `${msg}${formatDiffBlock(diff)}`;
+  }
+
+  const { added, removed } = countDiffChanges(diff);
+  return `${msg}<b>Diff:</b> +${added} −${removed} lines (full diff attached)`;
+}
+
+function formatDiffBlock(diff: string): string {
+  return `<pre><code class="language-diff">${escapeHtml(diff)}</code></pre>`;
+}
+
+function formatWrite(toolInput: Record<string, unknown>): string {
+  let msg = formatFilePath(toolInput);
+
+  const content = stringField(toolInput, "content") ?? "";
+  const lines = content.split("\n");
+  let preview = lines.slice(0, WRITE_PREVIEW_LINES).join("\n");
+  if (lines.length > WRITE_PREVIEW_LINES) {
+    preview += "\n...";
+  }
+
+  msg += `<b>Content:</b> ${lines.length} lines\n${formatBlock(preview)}`;
+  return msg;
+}
+
+function formatRead(toolInput: Record<string, unknown>): string {
+  let msg = formatFilePath(toolInput);
+
+  const offset = numberField(toolInput, "offset");
+  const limit = numberField(toolInput, "limit");
+  if (offset !== undefined || limit !== undefined) {
+    const start = offset ?? 1;
+    const end = limit === undefined ? "end" : String(start + limit - 1);
+    msg += `<b>Lines:</b> ${start}-${end}\n`;
+  }
+
+  return msg;
+}
+
+function formatGeneric(toolInput: Record<string, unknown>): string {
+  return formatBlock(JSON.stringify(toolInput, null, 2), "json");
+}
+
+export function registerToolFormatter(
+  toolName: string,
+  formatter: ToolInputFormatter
+): void {
+  toolFormatters.set(toolName, formatter);
+}
+
+registerToolFormatter("Bash", formatBash);
+registerToolFormatter("Edit", (toolInput) => formatEditDiff("Edit", toolInput));
+registerToolFormatter("MultiEdit", (toolInput) =>
+  formatEditDiff("MultiEdit", toolInput)
+);
+registerToolFormatter("Write", formatWrite);
+registerToolFormatter("Read", formatRead);
+
+/**
+ * Renders tool input with the tool's registered formatter, falling back to
+ * pretty-printed JSON for unknown tools.
+ */
+export function formatToolInput(
+  toolName: string | undefined,
+  toolInput: Record<string, unknown>
+): string {
+  const formatter = toolName ? toolFormatters.get(toolName) : undefined;
+  return (formatter ?? formatGeneric)(toolInput);
+}
+
+/**
+ * Returns the full diff as a file when it is too long to show inline.
+ */
+export function getToolInputAttachment(
+  toolName: string | undefined,
+  toolInput: Record<string, unknown>
+): DocumentAttachment | undefined {
+  const diff = buildEditDiff(toolName, toolInput);
+  if (!diff || diff.length <= MAX_INLINE_DIFF_LENGTH) {
+    return;
+  }
+
+  const filePath = stringField(toolInput, "file_path") ?? "changes";
+  return { filename: `${basename(filePath)}.diff`, content: diff };
+}
+
+export function formatNotificationMessage(
+  context: NotificationContext
+): string {
+  let msg = "<b>Claude Code</b>\n\n";
+
+  msg += `<b>Project:</b> ${escapeHtml(context.projectName)}`;
+  if (context.gitBranch) {
+    msg += ` (<code>${escapeHtml(context.gitBranch)}</code>)`;
+  }
+  msg += "\n";
+
+  if (context.toolName) {
+    msg += `<b>Tool:</b> ${escapeHtml(context.toolName)}\n`;
+  }
+
+  msg += `<b>Event:</b> ${escapeHtml(context.eventType)}\n`;
+
+  if (context.quorum && context.quorum > 1) {
+    msg += `<b>Approvals required:</b> ${context.quorum}\n`;
+  }
+  msg += "\n";
+
+  if (context.message) {
+    // Truncate long messages
+    msg += `<pre>${escapeHtml(truncate(context.message, MAX_MESSAGE_LENGTH))}</pre>`;
+  }
+
+  if (context.toolInput) {
+    if (context.message) {
+      msg += "\n\n";
+    }
+    msg += formatToolInput(context.toolName, context.toolInput);
+  }
+
+  return msg;
+}
+
+function formatResponder(responder: Responder): string {
+  return responder.username ? `@${responder.username}` : responder.name;
+}
+
+function formatDecidedBy(
+  responders: Responder[] | undefined,
+  at: Date
+): string {
+  const time = at.toTimeString().slice(0, 5);
+  if (!responders || responders.length === 0) {
+    return ` at ${time}`;
+  }
+  const names = responders.map(formatResponder).join(", ");
+  return ` by ${escapeHtml(names)} at ${time}`;
+}
+
+/**
+ * One-line status appended to an approval message once it is settled.
+ */
+export function formatOutcomeLine(outcome: ApprovalOutcome, at: Date): string {
+  switch (outcome.type) {
+    case "approve": {
+      const responders =
+        outcome.approvers ??
+        (outcome.responder ? [outcome.responder] : undefined);
+      const label = outcome.remember
+        ? REMEMBERED_LABELS[outcome.remember]
+        : "Approved";
+      return `✅ <b>${label}</b>${formatDecidedBy(responders, at)}`;
+    }
+    case "deny":
+      return `❌ <b>Denied</b>${formatDecidedBy(
+        outcome.responder && [outcome.responder],
+        at
+      )}`;
+    case "skip":
+      return `⏭ <b>Skipped</b>${formatDecidedBy(
+        outcome.responder && [outcome.responder],
+        at
+      )}`;
+    case "text":
+      return `💬 <b>Replied:</b> ${escapeHtml(
+        truncate(outcome.content, MAX_REPLY_PREVIEW_LENGTH)
+      )}`;
+    case "choice":
+      return `☑️ <b>Chose:</b> ${escapeHtml(
+        outcome.label ?? `option ${outcome.index + 1}`
+      )}${formatDecidedBy(outcome.responder && [outcome.responder], at)}`;
+    case "timeout":
+      return `⏱ <b>Timed out</b> — ${outcome.allowed ? "allowed" : "denied"}`;
+    case "elsewhere":
+      return "↪️ <b>Resolved elsewhere</b>";
+    case "escalated":
+      return "⏫ <b>Escalated</b> — no response here";
+    default:
+      return "";
+  }
+}
+
+/**
+ * Shortens text at a paragraph, line or word break near the limit rather
+ * than mid-word, so a cut-off summary still reads naturally.
+ */
+export function truncateAtBreak(text: string, maxLen: number): string {
+  if (text.length <= maxLen) {
+    return text;
+  }
+  const cut = text.slice(0, maxLen);
+  // Don't give up more than a fifth of the allowed length to find a break
+  const minBreak = Math.floor(maxLen * 0.8);
+  for (const separator of ["\n\n", "\n", " "]) {
+    const index = cut.lastIndexOf(separator);
+    if (index >= minBreak) {
+      return `${cut.slice(0, index).trimEnd()} …`;
+    }
+  }
+  return `${cut} …`;
+}
+
+function displayPath(path: string, cwd: string): string {
+  const fromCwd = relative(cwd, path);
+  return fromCwd.startsWith("..") || isAbsolute(fromCwd) ? path : fromCwd;
+}
+
+/**
+ * Formats what happened during the last turn for the Stop notification.
+ */
+export function formatTurnSummary(summary: TurnSummary, cwd: string): string {
+  const lines: string[] = [];
+
+  if (summary.lastMessage) {
+    lines.push(
+      `<blockquote>${escapeHtml(
+        truncateAtBreak(summary.lastMessage, MAX_SUMMARY_MESSAGE_LENGTH)
+      )}</blockquote>`,
+      ""
+    );
+  }
+
+  lines.push(`<b>Tool calls:</b> ${summary.toolCalls}`);
+
+  if (summary.editedFiles.length > 0) {
+    const shown = summary.editedFiles
+      .slice(0, MAX_SUMMARY_FILES)
+      .map((path) => `<code>${escapeHtml(displayPath(path, cwd))}</code>`);
+    const more = summary.editedFiles.length - shown.length;
+    lines.push(
+      `<b>Files edited (${summary.editedFiles.length}):</b> ${shown.join(", ")}${
+        more > 0 ? ` and ${more} more` : ""
+      }`
+    );
+  } else {
+    lines.push("<b>Files edited:</b> none");
+  }
+
+  if (summary.durationMs !== undefined) {
+    lines.push(
+      `<b>Duration:</b> ${formatDuration(Math.round(summary.durationMs / 1000))}`
+    );
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Formats a failed tool run for a PostToolUse alert: what failed, the
+ * tail of its output, and how many failures the rate limit held back.
+ */
+export function formatFailureAlert(
+  failure: ToolFailure,
+  suppressed: number
+): string {
+  let msg = `⚠️ <b>${escapeHtml(failure.reason)}</b>`;
+  if (failure.target) {
+    msg += `\n<code>${escapeHtml(truncate(failure.target, MAX_COMMAND_PREVIEW_LENGTH))}</code>`;
+  }
+  if (failure.output) {
+    msg += `\n\n<pre>${escapeHtml(failure.output)}</pre>`;
+  }
+  if (suppressed > 0) {
+    msg += `\n\n<i>${suppressed} more failure(s) since the last alert</i>`;
+  }
+  return msg;
+}
+
+/**
+ * One line saying what a request is about, e.g. "Bash: npm test", for
+ * lists such as /pending. Plain text; escape it before sending.
+ */
+export function formatRequestSummary(context: NotificationContext): string {
+  if (!context.toolName) {
+    return context.eventType;
+  }
+  const input = context.toolInput ?? {};
+  const target =
+    stringField(input, "command") ??
+    stringField(input, "file_path") ??
+    stringField(input, "url") ??
+    stringField(input, "pattern");
+  return target
+    ? `${context.toolName}: ${truncate(target, MAX_REQUEST_SUMMARY_LENGTH)}`
+    : context.toolName;
+}
@@ -0,0 +1,207 @@
+import { getGrantsPath } from "./config";
+import { withFileLock, writeFileAtomic } from "./state-file";
+import type { ClaudeHookInput, Grant, GrantScope } from "./types";
+
+// Words of a Bash command that make up its grant prefix, e.g. "npm run"
+const PREFIX_WORDS = 2;
+
+// Any shell metacharacter can chain, background, redirect or substitute
+// another command, so commands containing one never match a grant
+const SHELL_METACHARACTERS = /[;&|<>()$`\\\r\n]/;
+const ENV_ASSIGNMENT = /^[A-Za-z_][A-Za-z0-9_]*=/;
+const WHITESPACE = /\s+/;
+// Commands whose first two words say nothing about what they destroy or
+// run, e.g. "rm -rf" or "sudo npm"; they always need a fresh approval
+const DESTRUCTIVE_COMMANDS = new Set([
+  "rm",
+  "rmdir",
+  "shred",
+  "dd",
+  "truncate",
+  "chmod",
+  "chown",
+  "kill",
+  "killall",
+  "pkill",
+  "sudo",
+  "doas",
+  "su",
+  "env",
+  "eval",
+  "exec",
+  "xargs",
+  "sh",
+  "bash",
+  "zsh",
+  "find",
+]);
+// Commands that run the rest of the line, e.g. "timeout 5 rm -rf x", so
+// their prefix says nothing about what actually runs
+const WRAPPER_COMMANDS = new Set([
+  "command",
+  "nice",
+  "timeout",
+  "nohup",
+  "time",
+  "stdbuf",
+  "ionice",
+]);
+const DESTRUCTIVE_PREFIXES = new Set([
+  "git push",
+  "git reset",
+  "git clean",
+  "git checkout",
+  "git restore",
+]);
+
+function isDestructive(words: string[]): boolean {
+  const command = words[0]?.split("/").at(-1) ?? "";
+  const second = words[1] ?? "";
+  return (
+    DESTRUCTIVE_COMMANDS.has(command) ||
+    WRAPPER_COMMANDS.has(command) ||
+    command.startsWith("mkfs") ||
+    // An option in second place can hide the subcommand ("git -C repo
+    // push") or run code ("python3 -c ...")
+    second.startsWith("-") ||
+    DESTRUCTIVE_PREFIXES.has(`${command} ${second}`)
+  );
+}
+
+/**
+ * Normalizes a Bash command to the prefix a grant is keyed on. Returns
+ * undefined for commands with shell metacharacters or a destructive
+ * prefix, which always need a fresh approval.
+ */
+export function getCommandPrefix(command: string): string | undefined {
+  if (SHELL_METACHARACTERS.test(command)) {
+    return;
+  }
+
+  const words = command
+    .trim()
+    .split(WHITESPACE)
+    .filter((word) => word.length > 0);
+  while (words[0] && ENV_ASSIGNMENT.test(words[0])) {
+    words.shift();
+  }
+
+  if (words.length === 0 || isDestructive(words)) {
+    return;
+  }
+  return words.slice(0, PREFIX_WORDS).join(" ");
+}
+
+function inputCommandPrefix(input: ClaudeHookInput): string | undefined {
+  const command = input.tool_input?.command;
+  return typeof command === "string" ? getCommandPrefix(command) : undefined;
+}
+
+function grantKey(scope: GrantScope, input: ClaudeHookInput): string {
+  return scope === "session" ? input.session_id : input.cwd;
+}
+
+/**
+ * Whether a request could be remembered: it needs a tool name, and Bash
+ * commands need a simple, non-destructive command.
+ */
+export function isGrantable(input: ClaudeHookInput): boolean {
+  if (!input.tool_name) {
+    return false;
+  }
+  return input.tool_name !== "Bash" || inputCommandPrefix(input) !== undefined;
+}
+
+export async function loadGrants(path = getGrantsPath()): Promise<Grant[]> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) {
+    return [];
+  }
+
+  try {
+    const stored = (await file.json()) as { grants?: Grant[] };
+    return stored.grants ?? [];
+  } catch {
+    return [];
+  }
+}
+
+async function saveGrants(grants: Grant[], path: string): Promise<void> {
+  await writeFileAtomic(path, JSON.stringify({ grants }, null, 2));
+}
+
+export function findGrant(
+  grants: Grant[],
+  input: ClaudeHookInput
+): Grant | undefined {
+  if (!isGrantable(input)) {
+    return;
+  }
+
+  const commandPrefix = inputCommandPrefix(input);
+  return grants.find(
+    (grant) =>
+      grant.key === grantKey(grant.scope, input) &&
+      grant.toolName === input.tool_name &&
+      grant.commandPrefix === commandPrefix
+  );
+}
+
+/**
+ * Remembers an approval for later requests with the same tool and command
+ * prefix. Returns null when the request can't be granted (e.g. Bash
+ * commands with metacharacters, or no tool name).
+ */
+export async function addGrant(
+  scope: GrantScope,
+  input: ClaudeHookInput,
+  path = getGrantsPath()
+): Promise<Grant | null> {
+  const toolName = input.tool_name;
+  if (!(toolName && isGrantable(input))) {
+    return null;
+  }
+
+  return await withFileLock(path, async () => {
+    const grants = await loadGrants(path);
+    const existing = findGrant(grants, input);
+    if (existing?.scope === scope) {
+      return existing;
+    }
+
+    const grant: Grant = {
+      id: crypto.randomUUID().slice(0, 8),
+      scope,
+      key: grantKey(scope, input),
+      toolName,
+      commandPrefix: inputCommandPrefix(input),
+      createdAt: new Date().toISOString(),
+    };
+    await saveGrants([...grants, grant], path);
+    return grant;
+  });
+}
+
+/**
+ * Revokes one grant by id, or every grant with "all".
+ */
+export async function revokeGrant(
+  id: string,
+  path = getGrantsPath()
+): Promise<number> {
+  return await withFileLock(path, async () => {
+    const grants = await loadGrants(path);
+    const remaining = id === "all" ? [] : grants.filter((g) => g.id !== id);
+    await saveGrants(remaining, path);
+    return grants.length - remaining.length;
+  });
+}
+
+export function describeGrant(grant: Grant): string {
+  const what = grant.commandPrefix
+    ? `${grant.toolName}(${grant.commandPrefix} ...)`
+    : grant.toolName;
+  const where =
+    grant.scope === "session" ? `session ${grant.key}` : `project ${grant.key}`;
+  return `${grant.id}  ${what}  [${where}]  since ${grant.createdAt}`;
+}
@@ -0,0 +1,59 @@
+import type {
+  ClaudeHookOutput,
+  PermissionDecision,
+  PolicyDecision,
+  UserResponse,
+} from "./types";
+
+function preToolUseDecision(
+  permissionDecision: PermissionDecision,
+  permissionDecisionReason: string
+): ClaudeHookOutput {
+  return {
+    hookSpecificOutput: {
+      hookEventName: "PreToolUse",
+      permissionDecision,
+      permissionDecisionReason,
+    },
+  };
+}
+
+/**
+ * Maps a Telegram response to a PreToolUse hook decision.
+ * Skip falls back to Claude Code's own permission prompt.
+ */
+export function buildPreToolUseOutput(
+  response: UserResponse
+): ClaudeHookOutput {
+  switch (response.type) {
+    case "approve":
+      return preToolUseDecision("allow", "Approved via Telegram.");
+    case "deny":
+      return preToolUseDecision(
+        "deny",
+        "User denied this action via Telegram."
+      );
+    case "skip":
+      return preToolUseDecision("ask", "Skipped via Telegram.");
+    case "text":
+      return preToolUseDecision("deny", response.content);
+    case "timeout":
+      if (response.allowed) {
+        return preToolUseDecision("allow", "Allowed by timeout policy.");
+      }
+      return preToolUseDecision(
+        "deny",
+        "Timeout waiting for response via Telegram. Action denied for safety."
+      );
+    default:
+      return preToolUseDecision("ask", "Unexpected response type.");
+  }
+}
+
+export function buildPolicyOutput(decision: PolicyDecision): ClaudeHookOutput {
+  const verdict = decision.action === "allow" ? "Allowed" : "Denied";
+  return preToolUseDecision(
+    decision.action,
+    decision.reason ?? `${verdict} by claude-telegram policy.`
+  );
+}
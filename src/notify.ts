@@ -1,20 +1,103 @@
 #!/usr/bin/env bun
 
 import { rm } from "node:fs/promises";
-import { homedir } from "node:os";
-import { basename, dirname, join } from "node:path";
-import { getConfigDir, loadConfig } from "./config";
-import { TelegramClient } from "./telegram";
+import { basename } from "node:path";
+import { getArgValue } from "./args";
+import {
+  type AuditOutcome,
+  appendAuditEntry,
+  createAuditEntry,
+  filterAuditEntries,
+  formatAuditEntry,
+  readAuditLog,
+} from "./audit";
+import { CommandRouter, registerCommands } from "./commands";
+import {
+  formatResolvedConfig,
+  getCliOverrides,
+  getConfigDir,
+  loadConfig,
+  redactConfig,
+  resolveConfig,
+} from "./config";
+import { runDaemon } from "./daemon";
+import { createPendingRequest, waitForUserResponse } from "./daemon-client";
+import { formatCheckResults, runDoctorChecks } from "./doctor";
+import { buildElicitationOutput, parseElicitation } from "./elicitation";
+import {
+  describeLifecycleEvent,
+  isEventEnabled,
+  parseEventList,
+} from "./events";
+import { claimAlert, detectFailure } from "./failures";
+import {
+  formatFailureAlert,
+  formatNotificationMessage,
+  formatOutcomeLine,
+  formatRequestSummary,
+  formatTurnSummary,
+  getToolInputAttachment,
+} from "./formatters";
+import {
+  addGrant,
+  describeGrant,
+  findGrant,
+  isGrantable,
+  loadGrants,
+  revokeGrant,
+} from "./grants";
+import { buildPolicyOutput, buildPreToolUseOutput } from "./hook-output";
+import { evaluatePolicy, loadPolicy } from "./policy";
+import { trackSession } from "./sessions";
+import {
+  type ApprovalHook,
+  formatHooksStatus,
+  getHooksStatus,
+  getInstalledHookTimeout,
+  getSettingsPath,
+  installHooks,
+  SETTINGS_SCOPES,
+  type SettingsScope,
+  type SettingsWriteResult,
+  uninstallHooks,
+} from "./settings";
+import {
+  createApprovalKeyboard,
+  createChoiceKeyboard,
+  createContinueKeyboard,
+  createQuorumKeyboard,
+  TelegramClient,
+} from "./telegram";
+import {
+  fitTimeoutRule,
+  formatDuration,
+  resolveTimeoutRule,
+  scheduleReminders,
+} from "./timeouts";
+import { readSessionStart, readTurnSummary } from "./transcript";
 import type {
+  ApprovalOutcome,
   ClaudeHookInput,
   ClaudeHookOutput,
+  InlineKeyboardMarkup,
+  LifecycleEvent,
   NotificationContext,
+  PendingRequest,
+  PendingRequestInfo,
+  PolicyDecision,
+  PolicyFile,
+  PolicyTarget,
+  ResolvedTimeoutRule,
   TelegramConfig,
-  TelegramMessage,
+  UserResponse,
 } from "./types";
 
 const VERSION = "1.0.0";
 const INSTALL_PATH = "/usr/local/bin/claude-telegram";
+// Claude Code stops the hook when the prompt is answered in the terminal
+const RESOLVED_ELSEWHERE_SIGNALS = ["SIGTERM", "SIGINT", "SIGHUP"] as const;
+// Seconds kept free before the hook's timeout to record the outcome
+const HOOK_EXIT_MARGIN = 15;
 
 function printHelp(): void {
   console.log(`
@@ -26,34 +109,57 @@ Usage:
   claude-telegram [options]
 
 Options:
-  --setup       Run the setup wizard to configure Telegram bot
+  --setup       Run the setup wizard to configure Telegram bot. With
+                --non-interactive, every answer comes from flags or env
+                vars (--token, --chat-id, --profile, --route,
+                --token-storage, --hooks/--no-hooks, --approval-hook,
+                --events, --no-test, --yes) and the result is printed as JSON
   --test        Test the Telegram connection
+  --doctor      Check config, token, chat, webhook, hooks and git, with a
+                suggested fix for each problem (also: claude-telegram doctor)
+  --daemon      Run the shared update poller for parallel sessions
+  --profile     Use a named profile instead of routing by project
+  --config      Show the resolved config and where each value came
+                from (--config show [--json]), or check it for errors
+                (--config validate)
+  --token, --chat-id, --timeout
+                Override config values for this run
+  --hooks       Show installed hooks in user and project settings
+                (--hooks status [--json]), or add/remove them
+                (--hooks install|uninstall [--scope user|project|local]
+                [--approval-hook notification|pre-tool-use]
+                [--events SubagentStop,SessionStart,SessionEnd,PreCompact,
+                PostToolUse|all])
+  --grants      List "always allow" grants (--grants revoke <id|all>)
+  --log         Query the audit log (--since, --until, --project,
+                --decision, --json)
   --uninstall   Remove the binary and configuration
   --version     Show version number
   --help        Show this help message
 
 Examples:
   claude-telegram --setup      # Configure your Telegram bot
+  claude-telegram --setup --token 123:abc --chat-id 42 --yes --non-interactive
   claude-telegram --test       # Send a test notification
+  claude-telegram doctor       # Diagnose missing notifications
+  claude-telegram --daemon     # Route button taps for all sessions
+  claude-telegram --test --profile work  # Test the "work" profile
+  claude-telegram --config show          # Print the merged config
+  claude-telegram --config validate      # Check config files for typos
+  claude-telegram --hooks status         # Where hooks are installed
+  claude-telegram --hooks install --scope local
+  claude-telegram --hooks install --events SubagentStop,PreCompact
+  claude-telegram --grants revoke all  # Forget every remembered approval
+  claude-telegram --log --since 2026-01-01 --decision deny
   claude-telegram              # Normal mode (called by Claude Code hooks)
 
 Documentation: https://github.com/arthurbm/my-claude-telegram
 `);
 }
 
-async function runSetup(): Promise<void> {
-  // Dynamically import setup to avoid circular dependencies
-  const scriptDir = dirname(Bun.main);
-  const setupPath = join(scriptDir, "..", "setup.ts");
-
-  try {
-    // Try to import setup.ts relative to this file
-    await import(setupPath);
-  } catch {
-    // If running from compiled binary, setup functions are embedded
-    const { runSetupWizard } = await import("./setup-wizard");
-    await runSetupWizard();
-  }
+async function runSetup(args: string[]): Promise<void> {
+  const { runSetupWizard } = await import("./setup-wizard");
+  await runSetupWizard(args);
 }
 
 async function runUninstall(): Promise<void> {
@@ -76,23 +182,13 @@ async function runUninstall(): Promise<void> {
     // Binary might be elsewhere or not installed via curl
   }
 
-  // Remove hooks from Claude Code settings
-  const claudeSettingsPath = join(homedir(), ".claude", "settings.json");
-  try {
-    const file = Bun.file(claudeSettingsPath);
-    if (await file.exists()) {
-      const settings = (await file.json()) as {
-        hooks?: Record<string, unknown>;
-      };
-      if (settings.hooks) {
-        settings.hooks.Notification = undefined;
-        settings.hooks.Stop = undefined;
-        await Bun.write(claudeSettingsPath, JSON.stringify(settings, null, 2));
-        console.log(`Removed hooks from: ${claudeSettingsPath}`);
-      }
+  // Remove only our hooks from Claude Code settings, user and project
+  for (const scope of SETTINGS_SCOPES) {
+    try {
+      reportHooksWrite(await uninstallHooks(getSettingsPath(scope)), "Removed");
+    } catch (error) {
+      console.error((error as Error).message);
     }
-  } catch {
-    // Settings file might not exist
   }
 
   console.log("\nUninstall complete!");
@@ -101,6 +197,141 @@ async function runUninstall(): Promise<void> {
   );
 }
 
+function reportHooksWrite(result: SettingsWriteResult, verb: string): void {
+  if (!result.changed) {
+    return;
+  }
+  if (result.backupPath) {
+    console.log(`Backed up ${result.path} to ${result.backupPath}`);
+  }
+  console.log(`${verb} hooks in: ${result.path}`);
+}
+
+function parseScope(args: string[]): SettingsScope {
+  const scope = getArgValue(args, "--scope") ?? "user";
+  if (!SETTINGS_SCOPES.includes(scope as SettingsScope)) {
+    console.error(`--scope must be one of ${SETTINGS_SCOPES.join(", ")}.`);
+    process.exit(1);
+  }
+  return scope as SettingsScope;
+}
+
+async function runHooks(args: string[]): Promise<void> {
+  const subcommand = args[args.indexOf("--hooks") + 1] ?? "status";
+
+  if (subcommand === "status") {
+    const statuses = await getHooksStatus();
+    console.log(
+      args.includes("--json")
+        ? JSON.stringify(statuses, null, 2)
+        : formatHooksStatus(statuses)
+    );
+    return;
+  }
+
+  const path = getSettingsPath(parseScope(args));
+  if (subcommand === "install") {
+    // Flags left out keep what is already installed
+    const approvalFlag = getArgValue(args, "--approval-hook");
+    let approvalHook: ApprovalHook | undefined;
+    if (approvalFlag !== undefined) {
+      approvalHook =
+        approvalFlag === "pre-tool-use" ? "pre-tool-use" : "notification";
+    }
+    const eventsFlag = getArgValue(args, "--events");
+    const result = await installHooks(
+      path,
+      approvalHook,
+      eventsFlag === undefined ? undefined : parseEventList(eventsFlag)
+    );
+    reportHooksWrite(result, "Installed");
+    if (!result.changed) {
+      console.log(`Hooks already installed in: ${path}`);
+    }
+    return;
+  }
+
+  if (subcommand === "uninstall") {
+    const result = await uninstallHooks(path);
+    reportHooksWrite(result, "Removed");
+    if (!result.changed) {
+      console.log(`No claude-telegram hooks in: ${path}`);
+    }
+    return;
+  }
+
+  console.error(
+    "Usage: claude-telegram --hooks <status|install|uninstall> [--scope user|project|local] [--events <list|all>]"
+  );
+  process.exit(1);
+}
+
+async function runGrants(grantArgs: string[]): Promise<void> {
+  const [command, id] = grantArgs;
+
+  if (command === "revoke") {
+    if (!id) {
+      console.error("Usage: claude-telegram --grants revoke <id|all>");
+      process.exit(1);
+    }
+    const revoked = await revokeGrant(id);
+    console.log(`Revoked ${revoked} grant(s).`);
+    return;
+  }
+
+  const grants = await loadGrants();
+  if (grants.length === 0) {
+    console.log("No grants saved.");
+    return;
+  }
+  for (const grant of grants) {
+    console.log(describeGrant(grant));
+  }
+}
+
+function parseDateArg(value: string | undefined): Date | undefined {
+  if (!value) {
+    return;
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    console.error(`Invalid date: ${value}`);
+    process.exit(1);
+  }
+  return date;
+}
+
+async function runLog(args: string[]): Promise<void> {
+  const untilArg = getArgValue(args, "--until");
+  const until = parseDateArg(untilArg);
+  // A bare date for --until means "through the end of that day"
+  if (until && !untilArg?.includes("T")) {
+    until.setUTCHours(23, 59, 59, 999);
+  }
+
+  const entries = filterAuditEntries(await readAuditLog(), {
+    since: parseDateArg(getArgValue(args, "--since")),
+    until,
+    project: getArgValue(args, "--project"),
+    decision: getArgValue(args, "--decision"),
+  });
+
+  if (args.includes("--json")) {
+    for (const entry of entries) {
+      console.log(JSON.stringify(entry));
+    }
+    return;
+  }
+
+  if (entries.length === 0) {
+    console.log("No audit entries found.");
+    return;
+  }
+  for (const entry of entries) {
+    console.log(formatAuditEntry(entry));
+  }
+}
+
 async function getGitBranch(cwd: string): Promise<string | undefined> {
   try {
     const proc = Bun.spawn(["git", "rev-parse", "--abbrev-ref", "HEAD"], {
@@ -115,54 +346,835 @@ async function getGitBranch(cwd: string): Promise<string | undefined> {
   }
 }
 
-function formatNotificationMessage(context: NotificationContext): string {
-  let msg = "<b>Claude Code</b>\n\n";
+async function readStdinJson(): Promise<ClaudeHookInput | null> {
+  try {
+    const stdin = await Bun.stdin.text();
+    if (!stdin.trim()) {
+      return null;
+    }
+    return JSON.parse(stdin);
+  } catch {
+    return null;
+  }
+}
 
-  msg += `<b>Project:</b> ${escapeHtml(context.projectName)}`;
-  if (context.gitBranch) {
-    msg += ` (<code>${escapeHtml(context.gitBranch)}</code>)`;
+interface HookContext {
+  client: TelegramClient;
+  config: TelegramConfig;
+  input: ClaudeHookInput;
+  projectName: string;
+  gitBranch?: string;
+  requestedAt: number;
+}
+
+function getRequestInfo(
+  hook: HookContext,
+  summary: string
+): PendingRequestInfo {
+  return {
+    sessionId: hook.input.session_id,
+    projectName: hook.projectName,
+    gitBranch: hook.gitBranch,
+    summary,
+    requestedAt: hook.requestedAt,
+  };
+}
+
+async function recordAudit(
+  hook: HookContext,
+  outcome: AuditOutcome
+): Promise<void> {
+  try {
+    await appendAuditEntry(
+      createAuditEntry(hook.input, hook.gitBranch, hook.requestedAt, outcome)
+    );
+  } catch (error) {
+    console.error("Failed to write audit log:", (error as Error).message);
   }
-  msg += "\n";
+}
 
-  if (context.toolName) {
-    msg += `<b>Tool:</b> ${escapeHtml(context.toolName)}\n`;
+async function recordResponse(
+  hook: HookContext,
+  response: UserResponse
+): Promise<void> {
+  await recordAudit(hook, {
+    decision: response.type,
+    source: "telegram",
+    responder: response.type === "timeout" ? undefined : response.responder,
+    approvers: response.type === "approve" ? response.approvers : undefined,
+    reason:
+      response.type === "timeout" && response.allowed
+        ? "Allowed by timeout policy."
+        : undefined,
+  });
+}
+
+function createRequestKeyboard(
+  context: NotificationContext,
+  includeGrantButtons: boolean
+): InlineKeyboardMarkup {
+  if (context.choices) {
+    return createChoiceKeyboard(context.choices, context.allowReply);
   }
+  const quorum = context.quorum ?? 1;
+  // Grants would let one approver bypass a quorum, so offer them only
+  // for ordinary requests
+  return quorum > 1
+    ? createQuorumKeyboard([], quorum)
+    : createApprovalKeyboard(true, includeGrantButtons);
+}
 
-  msg += `<b>Event:</b> ${escapeHtml(context.eventType)}\n\n`;
+interface SentApproval {
+  messageId: number;
+  text: string;
+}
+
+async function sendApprovalRequest(
+  client: TelegramClient,
+  context: NotificationContext,
+  includeGrantButtons: boolean,
+  header?: string
+): Promise<SentApproval> {
+  const message = formatNotificationMessage(context);
+  const text = header ? `${header}\n\n${message}` : message;
+  const sentMessage = await client.sendMessage(
+    text,
+    createRequestKeyboard(context, includeGrantButtons)
+  );
 
-  if (context.message) {
-    // Truncate long messages
-    const maxLen = 2000;
-    let messageText = context.message;
-    if (messageText.length > maxLen) {
-      messageText = `${messageText.substring(0, maxLen)}...`;
+  // Diffs too long for the message go along as a file
+  const attachment =
+    context.toolInput &&
+    getToolInputAttachment(context.toolName, context.toolInput);
+  if (attachment) {
+    try {
+      await client.sendDocument(attachment, sentMessage.message_id);
+    } catch (error) {
+      console.error("Failed to send diff:", (error as Error).message);
     }
-    msg += `<pre>${escapeHtml(messageText)}</pre>`;
   }
 
-  return msg;
+  return { messageId: sentMessage.message_id, text };
 }
 
-function escapeHtml(text: string): string {
-  return text
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;");
+/**
+ * Appends the final outcome to the approval message, so a scrolled chat
+ * still shows what was decided. This also removes the keyboard.
+ */
+async function markOutcome(
+  client: TelegramClient,
+  sent: SentApproval,
+  outcome: ApprovalOutcome
+): Promise<void> {
+  try {
+    await client.editMessageText(
+      sent.messageId,
+      `${sent.text}\n\n${formatOutcomeLine(outcome, new Date())}`
+    );
+  } catch (error) {
+    console.error("Failed to update message:", (error as Error).message);
+  }
 }
 
-async function readStdinJson(): Promise<ClaudeHookInput | null> {
+interface ActiveApproval {
+  client: TelegramClient;
+  sent: SentApproval;
+  // Shared by every wait on the message, so a reminder keeps its state
+  pending: PendingRequest;
+}
+
+/**
+ * Marks the message as resolved elsewhere, and logs it, if Claude Code
+ * stops the hook, e.g. because the user answered in the terminal.
+ * Returns a function that stops watching.
+ */
+function watchResolvedElsewhere(
+  hook: HookContext,
+  active: ActiveApproval
+): () => void {
+  const onResolvedElsewhere = async () => {
+    await markOutcome(active.client, active.sent, { type: "elsewhere" });
+    await recordAudit(hook, { decision: "elsewhere", source: "terminal" });
+    process.exit(0);
+  };
+  for (const signal of RESOLVED_ELSEWHERE_SIGNALS) {
+    process.once(signal, onResolvedElsewhere);
+  }
+  return () => {
+    for (const signal of RESOLVED_ELSEWHERE_SIGNALS) {
+      process.off(signal, onResolvedElsewhere);
+    }
+  };
+}
+
+async function waitWithReminders(
+  active: ActiveApproval,
+  rule: ResolvedTimeoutRule
+): Promise<UserResponse> {
+  const cancelReminders = scheduleReminders(
+    active.client,
+    active.sent.messageId,
+    rule
+  );
   try {
-    const stdin = await Bun.stdin.text();
-    if (!stdin.trim()) {
-      return null;
+    return await waitForUserResponse(
+      active.client,
+      active.pending,
+      rule.timeout
+    );
+  } finally {
+    cancelReminders();
+  }
+}
+
+/**
+ * Hands an unanswered request to the escalation chat. The active approval
+ * switches to the new message, so its outcome is recorded there.
+ */
+async function escalate(
+  hook: HookContext,
+  context: NotificationContext,
+  active: ActiveApproval,
+  rule: ResolvedTimeoutRule
+): Promise<UserResponse> {
+  if (!rule.escalateChatId) {
+    console.error("Timeout action is escalate, but no escalateChatId is set.");
+    return { type: "timeout" };
+  }
+
+  const client = new TelegramClient({
+    ...hook.config,
+    chatId: rule.escalateChatId,
+  });
+  const sent = await sendApprovalRequest(
+    client,
+    context,
+    isGrantable(hook.input),
+    `⏫ <b>Escalated:</b> no response after ${formatDuration(rule.timeout)}`
+  );
+  await markOutcome(active.client, active.sent, { type: "escalated" });
+  // The new message starts with fresh buttons, so it gets a fresh request
+  active.client = client;
+  active.sent = sent;
+  active.pending = createPendingRequest(
+    client,
+    sent.messageId,
+    context.quorum,
+    active.pending.info
+  );
+
+  return waitForUserResponse(client, active.pending, rule.extendBy);
+}
+
+async function applyTimeoutAction(
+  hook: HookContext,
+  context: NotificationContext,
+  active: ActiveApproval,
+  rule: ResolvedTimeoutRule
+): Promise<UserResponse> {
+  switch (rule.action) {
+    case "allow":
+      return { type: "timeout", allowed: true };
+    case "remind":
+      await active.client.sendMessage(
+        `⏰ <b>No response after ${formatDuration(
+          rule.timeout
+        )}</b>, waiting another ${formatDuration(rule.extendBy)}`,
+        undefined,
+        false,
+        active.sent.messageId
+      );
+      return waitForUserResponse(active.client, active.pending, rule.extendBy);
+    case "escalate":
+      return escalate(hook, context, active, rule);
+    default:
+      return { type: "timeout" };
+  }
+}
+
+/**
+ * Sends the approval request and waits for the answer, applying the
+ * timeout policy if nobody responds. If Claude Code kills the hook first
+ * (the prompt was answered in the terminal), the message is marked as
+ * resolved elsewhere.
+ */
+async function requestApproval(
+  hook: HookContext,
+  context: NotificationContext
+): Promise<UserResponse> {
+  const { client, config, input } = hook;
+  // Claude Code kills the hook at its timeout, and the timeout action
+  // (e.g. remind, then escalate) must run before that
+  const rule = fitTimeoutRule(
+    resolveTimeoutRule(config, input),
+    await getWaitBudget(input.hook_event_name, input.cwd)
+  );
+
+  const sent = await sendApprovalRequest(client, context, isGrantable(input));
+  const active: ActiveApproval = {
+    client,
+    sent,
+    pending: createPendingRequest(
+      client,
+      sent.messageId,
+      context.quorum,
+      getRequestInfo(hook, formatRequestSummary(context))
+    ),
+  };
+
+  const stopWatching = watchResolvedElsewhere(hook, active);
+
+  let response = await waitWithReminders(active, rule);
+  if (response.type === "timeout") {
+    try {
+      response = await applyTimeoutAction(hook, context, active, rule);
+    } catch (error) {
+      console.error("Timeout action failed:", (error as Error).message);
     }
-    return JSON.parse(stdin);
+  }
+
+  stopWatching();
+  if (response.type === "choice") {
+    response = { ...response, label: context.choices?.[response.index] };
+  }
+
+  await markOutcome(active.client, active.sent, response);
+  await rememberApproval(input, response);
+  await recordResponse(hook, response);
+  return response;
+}
+
+/**
+ * Checks policy.json, then remembered grants, before contacting Telegram.
+ * A broken policy file never blocks anything: the request just goes to
+ * Telegram as usual.
+ */
+async function applyAutoDecisions(hook: HookContext): Promise<PolicyDecision> {
+  const decision = await applyPolicy(hook);
+  if (decision.action !== "ask" || decision.quorum) {
+    return decision;
+  }
+
+  const grant = findGrant(await loadGrants(), hook.input);
+  if (grant) {
+    const reason = `Allowed by remembered grant ${grant.id}.`;
+    await recordAudit(hook, { decision: "approve", source: "grant", reason });
+    return { action: "allow", reason, notify: false };
+  }
+
+  return decision;
+}
+
+async function rememberApproval(
+  input: ClaudeHookInput,
+  response: UserResponse
+): Promise<void> {
+  if (response.type !== "approve" || !response.remember) {
+    return;
+  }
+
+  try {
+    await addGrant(response.remember, input);
+  } catch (error) {
+    console.error("Failed to save grant:", (error as Error).message);
+  }
+}
+
+async function applyPolicy(hook: HookContext): Promise<PolicyDecision> {
+  const { client, input, projectName, gitBranch } = hook;
+  const ask: PolicyDecision = { action: "ask", notify: false };
+
+  let policy: PolicyFile | null;
+  try {
+    policy = await loadPolicy();
+  } catch (error) {
+    console.error((error as Error).message);
+    return ask;
+  }
+  if (!policy) {
+    return ask;
+  }
+
+  const target: PolicyTarget = {
+    toolName: input.tool_name,
+    toolInput: input.tool_input,
+    cwd: input.cwd,
+    gitBranch,
+  };
+  const decision = evaluatePolicy(policy, target);
+  if (decision.action === "ask") {
+    return decision;
+  }
+
+  await recordAudit(hook, {
+    decision: decision.action === "allow" ? "approve" : "deny",
+    source: "policy",
+    reason: decision.reason,
+  });
+
+  if (decision.notify) {
+    const verdict = decision.action === "allow" ? "approved" : "denied";
+    const context: NotificationContext = {
+      projectName,
+      gitBranch,
+      eventType: `auto-${verdict} by policy`,
+      message: decision.reason ?? "",
+      toolName: input.tool_name,
+      toolInput: input.tool_input,
+    };
+    await client.sendSimpleNotification(
+      formatNotificationMessage(context),
+      true
+    );
+  }
+
+  return decision;
+}
+
+async function handlePreToolUse(hook: HookContext): Promise<never> {
+  const { input, projectName, gitBranch } = hook;
+
+  const decision = await applyAutoDecisions(hook);
+  if (decision.action !== "ask") {
+    console.log(JSON.stringify(buildPolicyOutput(decision)));
+    process.exit(0);
+  }
+
+  const context: NotificationContext = {
+    projectName,
+    gitBranch,
+    eventType: "tool approval",
+    message: "",
+    toolName: input.tool_name,
+    toolInput: input.tool_input ?? {},
+    quorum: decision.quorum,
+  };
+
+  const response = await requestApproval(hook, context);
+
+  // Decisions go through stdout as JSON, so always exit 0
+  console.log(JSON.stringify(buildPreToolUseOutput(response)));
+  process.exit(0);
+}
+
+/**
+ * Asks an elicitation question with a button per choice, and a Reply
+ * button for free text, then answers the form with the response. An open
+ * question without a schema gets a single Accept button.
+ */
+async function handleElicitation(hook: HookContext): Promise<never> {
+  const { client, input, projectName, gitBranch } = hook;
+  const request = parseElicitation(input);
+  const context: NotificationContext = {
+    projectName,
+    gitBranch,
+    eventType: input.mcp_server_name
+      ? `question from ${input.mcp_server_name}`
+      : "question",
+    message: request.question,
+  };
+
+  // Multi-field forms can only be filled in the terminal
+  if (!request.supported) {
+    await client.sendSimpleNotification(formatNotificationMessage(context));
+    await recordAudit(hook, { decision: "notified", source: "telegram" });
+    process.exit(0);
+  }
+
+  const response = await requestApproval(hook, {
+    ...context,
+    choices: request.field
+      ? request.choices.map((choice) => choice.label)
+      : ["Accept"],
+    allowReply: Boolean(request.field),
+  });
+
+  const output = buildElicitationOutput(response, request);
+  if (output) {
+    console.log(JSON.stringify(output));
+  }
+  process.exit(0);
+}
+
+async function formatStopMessage(
+  hook: Omit<HookContext, "input">,
+  input: ClaudeHookInput | null
+): Promise<string> {
+  const { projectName, gitBranch } = hook;
+  const summary = await readTurnSummary(input?.transcript_path);
+  const message = formatNotificationMessage({
+    projectName,
+    gitBranch,
+    eventType: "Task Completed",
+    message: summary
+      ? ""
+      : "Claude has finished and is waiting for your next instruction.",
+  });
+  return summary
+    ? `${message}${formatTurnSummary(summary, input?.cwd ?? process.cwd())}`
+    : message;
+}
+
+/**
+ * Seconds a hook may wait for Telegram: the installed hook's timeout less
+ * time to record the outcome, so Claude Code doesn't kill the hook first.
+ * Undefined when no installed hook says, e.g. when run by hand.
+ */
+async function getWaitBudget(
+  event: string,
+  cwd: string
+): Promise<number | undefined> {
+  try {
+    const timeout = await getInstalledHookTimeout(event, cwd);
+    return timeout === undefined ? undefined : timeout - HOOK_EXIT_MARGIN;
   } catch {
-    return null;
+    return;
+  }
+}
+
+/**
+ * How long a Stop waits for a "Continue with…" reply: continueTimeout,
+ * cut to what the installed Stop hook allows. 0 only notifies.
+ */
+async function getContinueWindow(
+  config: TelegramConfig,
+  input: ClaudeHookInput
+): Promise<number> {
+  const requested = config.continueTimeout ?? 0;
+  if (requested <= 0 || input.stop_hook_active) {
+    return 0;
+  }
+
+  const budget = await getWaitBudget("Stop", input.cwd);
+  if (budget !== undefined && budget <= 0) {
+    console.error(
+      "The installed Stop hook times out too soon to wait for a reply. Run: claude-telegram --hooks install"
+    );
+    return 0;
+  }
+  return Math.min(requested, budget ?? requested);
+}
+
+/**
+ * Tells the user Claude has finished, with a summary of the turn read
+ * from the transcript when one is available. When continueTimeout opts
+ * in to a wait, a "Continue with…" reply blocks the stop and becomes
+ * Claude's next instruction. A stop that already follows such a reply
+ * (stop_hook_active) only notifies, so Claude can't be kept going by a
+ * loop of hooks.
+ */
+async function handleStop(
+  hookBase: Omit<HookContext, "input">,
+  input: ClaudeHookInput | null
+): Promise<never> {
+  const { client, config } = hookBase;
+  const text = await formatStopMessage(hookBase, input);
+  const window = input ? await getContinueWindow(config, input) : 0;
+
+  if (!input || window <= 0) {
+    await client.sendSimpleNotification(text);
+    if (input) {
+      await recordAudit(
+        { ...hookBase, input },
+        { decision: "notified", source: "telegram" }
+      );
+    }
+    process.exit(0);
+  }
+
+  const hook: HookContext = { ...hookBase, input };
+  const sentMessage = await client.sendMessage(text, createContinueKeyboard());
+  const active: ActiveApproval = {
+    client,
+    sent: { messageId: sentMessage.message_id, text },
+    pending: createPendingRequest(
+      client,
+      sentMessage.message_id,
+      1,
+      getRequestInfo(hook, "Finished, waiting for the next instruction")
+    ),
+  };
+  const stopWatching = watchResolvedElsewhere(hook, active);
+  const response = await waitForUserResponse(client, active.pending, window);
+  stopWatching();
+  await recordResponse(hook, response);
+
+  if (response.type === "timeout") {
+    // Claude just stops, so there's no outcome worth appending
+    try {
+      await client.editMessageReplyMarkup(sentMessage.message_id, undefined);
+    } catch (error) {
+      console.error("Failed to update message:", (error as Error).message);
+    }
+  } else {
+    await markOutcome(client, active.sent, response);
   }
+
+  if (response.type === "text") {
+    // Blocking the stop hands the reply to Claude as its next instruction
+    const output: ClaudeHookOutput = {
+      decision: "block",
+      reason: response.content,
+    };
+    console.log(JSON.stringify(output));
+  }
+  process.exit(0);
 }
 
+/**
+ * Sends a notify-only message for a lifecycle event, unless the config
+ * mutes it. Nothing goes to stdout: SessionStart output would be added
+ * to Claude's context.
+ */
+async function handleLifecycleEvent(
+  hook: HookContext,
+  event: Exclude<LifecycleEvent, "PostToolUse">
+): Promise<never> {
+  const { client, config, input, projectName, gitBranch } = hook;
+  if (!isEventEnabled(config, event)) {
+    process.exit(0);
+  }
+
+  const sessionStart = await readSessionStart(input.transcript_path);
+  const { eventType, message } = describeLifecycleEvent(
+    event,
+    input,
+    sessionStart === undefined ? undefined : Date.now() - sessionStart
+  );
+  let text = formatNotificationMessage({
+    projectName,
+    gitBranch,
+    eventType,
+    message,
+  });
+
+  // A subagent keeps its own transcript, summarized like a Stop
+  if (event === "SubagentStop") {
+    const summary = await readTurnSummary(input.agent_transcript_path);
+    if (summary) {
+      text += `\n\n${formatTurnSummary(summary, input.cwd)}`;
+    }
+  }
+
+  await client.sendSimpleNotification(text);
+  await recordAudit(hook, { decision: "notified", source: "telegram" });
+  process.exit(0);
+}
+
+/**
+ * Alerts on a failed tool run, at most once per cooldown per session so a
+ * failing loop doesn't flood the chat. Successful runs exit silently.
+ */
+async function handleToolFailure(hook: HookContext): Promise<never> {
+  const { client, config, input, projectName, gitBranch } = hook;
+  const failure = detectFailure(input);
+  if (!(failure && isEventEnabled(config, "PostToolUse"))) {
+    process.exit(0);
+  }
+
+  const { send, suppressed } = await claimAlert(
+    input.session_id,
+    config.failureAlertCooldown ?? 0
+  );
+  if (!send) {
+    process.exit(0);
+  }
+
+  const header = formatNotificationMessage({
+    projectName,
+    gitBranch,
+    eventType: "Tool Failure",
+    message: "",
+    toolName: failure.toolName,
+  });
+  await client.sendSimpleNotification(
+    `${header}${formatFailureAlert(failure, suppressed)}`
+  );
+  await recordAudit(hook, {
+    decision: "notified",
+    source: "telegram",
+    reason: failure.reason,
+  });
+  process.exit(0);
+}
+
+async function handleNotification(hook: HookContext): Promise<never> {
+  const { client, input, projectName, gitBranch } = hook;
+  const notificationType = input.notification_type ?? "notification";
+  const isPermissionPrompt = notificationType === "permission_prompt";
+
+  const context: NotificationContext = {
+    projectName,
+    gitBranch,
+    eventType: notificationType.replace(/_/g, " "),
+    message: input.message ?? "",
+    toolName: input.tool_name,
+    toolInput: input.tool_input,
+  };
+
+  const formattedMessage = formatNotificationMessage(context);
+
+  // For non-permission notifications, just notify without blocking
+  if (!isPermissionPrompt) {
+    await client.sendSimpleNotification(formattedMessage);
+    await recordAudit(hook, { decision: "notified", source: "telegram" });
+    process.exit(0);
+  }
+
+  const decision = await applyAutoDecisions(hook);
+  if (decision.action === "allow") {
+    process.exit(0);
+  }
+  if (decision.action === "deny") {
+    console.error(decision.reason ?? "Denied by claude-telegram policy.");
+    process.exit(2);
+  }
+
+  // Wait for user response
+  const response = await requestApproval(hook, {
+    ...context,
+    quorum: decision.quorum,
+  });
+
+  // Process response and return to Claude Code
+  const output: ClaudeHookOutput = {};
+
+  switch (response.type) {
+    case "approve":
+      // Exit 0 = success, Claude proceeds
+      process.exit(0);
+      break;
+
+    case "deny":
+      // Exit 2 = blocking error, stderr is feedback
+      console.error("User denied this action via Telegram.");
+      process.exit(2);
+      break;
+
+    case "skip":
+      // Just continue without feedback
+      process.exit(0);
+      break;
+
+    case "text":
+      // Return text response as system message
+      output.systemMessage = `User response via Telegram: ${response.content}`;
+      console.log(JSON.stringify(output));
+      process.exit(0);
+      break;
+
+    case "timeout":
+      // The timeout policy may allow; otherwise deny for safety
+      if (response.allowed) {
+        process.exit(0);
+      }
+      console.error(
+        "Timeout waiting for response via Telegram. Action denied for safety."
+      );
+      process.exit(2);
+      break;
+
+    default:
+      // Handle any unexpected response type
+      console.error("Unexpected response type");
+      process.exit(1);
+  }
+}
+
+async function runConfig(args: string[]): Promise<void> {
+  const subcommand = args[args.indexOf("--config") + 1];
+  const options = {
+    profile: getArgValue(args, "--profile"),
+    overrides: getCliOverrides(args),
+  };
+
+  if (subcommand === "validate") {
+    // Throws with every problem found when a file is invalid
+    await loadConfig(options);
+    console.log("Config is valid.");
+    return;
+  }
+
+  if (subcommand !== "show") {
+    console.error("Usage: claude-telegram --config <show|validate> [--json]");
+    process.exit(1);
+  }
+
+  const resolved = await resolveConfig(options);
+  if (args.includes("--json")) {
+    const redacted = { ...resolved, values: redactConfig(resolved.values) };
+    console.log(JSON.stringify(redacted, null, 2));
+    return;
+  }
+  console.log(formatResolvedConfig(resolved));
+}
+
+async function runDoctor(args: string[]): Promise<void> {
+  const results = await runDoctorChecks({
+    profile: getArgValue(args, "--profile"),
+    overrides: getCliOverrides(args),
+  });
+  console.log(
+    args.includes("--json")
+      ? JSON.stringify(results, null, 2)
+      : formatCheckResults(results)
+  );
+  if (results.some((result) => result.status === "fail")) {
+    process.exit(1);
+  }
+}
+
+async function runTest(
+  client: TelegramClient,
+  config: TelegramConfig
+): Promise<never> {
+  const profile = config.profile ? ` (profile ${config.profile})` : "";
+  console.log(`Testing Telegram connection${profile}...`);
+
+  const connected = await client.testConnection();
+  if (!connected) {
+    console.error("Failed to connect to Telegram. Check your config.");
+    process.exit(1);
+  }
+
+  await client.sendSimpleNotification(
+    "<b>Claude Code Telegram</b>\n\nTest notification successful!"
+  );
+  await registerCommands(client);
+  console.log("Success! Check your Telegram.");
+  process.exit(0);
+}
+
+// Handled before any config is loaded; --config works even when the
+// config is incomplete
+const MAINTENANCE_COMMANDS: [string, (args: string[]) => Promise<void>][] = [
+  ["--setup", runSetup],
+  ["--doctor", runDoctor],
+  ["--uninstall", runUninstall],
+  ["--hooks", runHooks],
+  ["--log", runLog],
+  ["--config", runConfig],
+  ["--grants", (args) => runGrants(args.slice(args.indexOf("--grants") + 1))],
+];
+
+type EventHandler = (hook: HookContext) => Promise<never>;
+
+// Keyed on hook_event_name; anything else is handled as a Notification
+const EVENT_HANDLERS: Record<string, EventHandler> = {
+  PreToolUse: handlePreToolUse,
+  Notification: handleNotification,
+  Elicitation: handleElicitation,
+  Stop: (hook) => handleStop(hook, hook.input),
+  SubagentStop: (hook) => handleLifecycleEvent(hook, "SubagentStop"),
+  SessionStart: (hook) => handleLifecycleEvent(hook, "SessionStart"),
+  SessionEnd: (hook) => handleLifecycleEvent(hook, "SessionEnd"),
+  PreCompact: (hook) => handleLifecycleEvent(hook, "PreCompact"),
+  PostToolUse: handleToolFailure,
+  PostToolUseFailure: handleToolFailure,
+};
+
 async function main() {
+  const requestedAt = Date.now();
   const args = process.argv.slice(2);
 
   // Handle help and version first (no config needed)
@@ -176,147 +1188,82 @@ async function main() {
     process.exit(0);
   }
 
-  // Handle setup (no config needed)
-  if (args.includes("--setup")) {
-    await runSetup();
-    process.exit(0);
-  }
-
-  // Handle uninstall (no config needed)
-  if (args.includes("--uninstall")) {
-    await runUninstall();
+  // Commands that manage the install rather than handle a hook. Only
+  // doctor is also a bare subcommand: `claude-telegram doctor`
+  const command = MAINTENANCE_COMMANDS.find(
+    ([flag]) =>
+      args.includes(flag) || (flag === "--doctor" && args[0] === "doctor")
+  );
+  if (command) {
+    await command[1](args);
     process.exit(0);
   }
 
   const isTest = args.includes("--test");
+  const isDaemon = args.includes("--daemon");
   const isStopEvent = args.includes("--event=stop");
 
+  // Read input from stdin (Claude Code hook input); its cwd picks the profile
+  const input = isTest || isDaemon ? null : await readStdinJson();
+  const cwd = input?.cwd ?? process.cwd();
+
   // Load config
   let config: TelegramConfig;
   try {
-    config = await loadConfig();
+    config = await loadConfig({
+      cwd,
+      profile: getArgValue(args, "--profile"),
+      overrides: getCliOverrides(args),
+    });
   } catch (error) {
     console.error((error as Error).message);
     process.exit(1);
   }
 
+  // Daemon mode (runs until stopped)
+  if (isDaemon) {
+    await runDaemon(config);
+    process.exit(0);
+  }
+
   const client = new TelegramClient(config);
+  // Without a daemon, this process answers /commands while it waits
+  client.commands = new CommandRouter(client, {
+    mode: "hook",
+    startedAt: requestedAt,
+    config,
+  });
 
   // Test mode
   if (isTest) {
-    console.log("Testing Telegram connection...");
-    const connected = await client.testConnection();
-    if (connected) {
-      await client.sendSimpleNotification(
-        "<b>Claude Code Telegram</b>\n\nTest notification successful!"
-      );
-      console.log("Success! Check your Telegram.");
-      process.exit(0);
-    } else {
-      console.error("Failed to connect to Telegram. Check your config.");
-      process.exit(1);
-    }
+    await runTest(client, config);
   }
 
-  // Read input from stdin (Claude Code hook input)
-  const input = await readStdinJson();
-
   // If no input, might be called directly for stop event
-  const cwd = input?.cwd ?? process.cwd();
   const projectName = basename(cwd);
   const gitBranch = await getGitBranch(cwd);
+  const hookBase = { client, config, projectName, gitBranch, requestedAt };
 
-  // Handle Stop event (notification only, no approval needed)
-  if (isStopEvent) {
-    const context: NotificationContext = {
-      projectName,
-      gitBranch,
-      eventType: "Task Completed",
-      message: "Claude has finished and is waiting for your next instruction.",
-    };
-
-    await client.sendSimpleNotification(formatNotificationMessage(context));
-    process.exit(0);
-  }
-
-  // Handle Notification event (needs approval)
-  if (input) {
-    const notificationType = input.notification_type ?? "notification";
-    const isPermissionPrompt = notificationType === "permission_prompt";
-
-    const context: NotificationContext = {
-      projectName,
-      gitBranch,
-      eventType: notificationType.replace(/_/g, " "),
-      message: input.message ?? "",
-      toolName: input.tool_name,
-    };
-
-    const formattedMessage = formatNotificationMessage(context);
-
-    // Send notification
-    let sentMessage: TelegramMessage;
-    if (isPermissionPrompt) {
-      sentMessage = await client.sendNotificationWithButtons(
-        formattedMessage,
-        true
-      );
-    } else {
-      // For non-permission notifications, just notify without blocking
-      await client.sendSimpleNotification(formattedMessage);
-      process.exit(0);
+  if (!input) {
+    // --event=stop predates hook_event_name and still works without input
+    if (isStopEvent) {
+      await handleStop(hookBase, null);
     }
+    console.error(
+      "No input received. This script should be called by Claude Code hooks."
+    );
+    process.exit(1);
+  }
 
-    // Wait for user response
-    const response = await client.waitForResponse(sentMessage.message_id);
-
-    // Process response and return to Claude Code
-    const output: ClaudeHookOutput = {};
-
-    switch (response.type) {
-      case "approve":
-        // Exit 0 = success, Claude proceeds
-        process.exit(0);
-        break;
-
-      case "deny":
-        // Exit 2 = blocking error, stderr is feedback
-        console.error("User denied this action via Telegram.");
-        process.exit(2);
-        break;
-
-      case "skip":
-        // Just continue without feedback
-        process.exit(0);
-        break;
-
-      case "text":
-        // Return text response as system message
-        output.systemMessage = `User response via Telegram: ${response.content}`;
-        console.log(JSON.stringify(output));
-        process.exit(0);
-        break;
-
-      case "timeout":
-        // Timeout - deny by default for safety
-        console.error(
-          "Timeout waiting for response via Telegram. Action denied for safety."
-        );
-        process.exit(2);
-        break;
-
-      default:
-        // Handle any unexpected response type
-        console.error("Unexpected response type");
-        process.exit(1);
-    }
+  try {
+    await trackSession(input, projectName, gitBranch);
+  } catch (error) {
+    console.error("Failed to record session:", (error as Error).message);
   }
 
-  // No input provided
-  console.error(
-    "No input received. This script should be called by Claude Code hooks."
-  );
-  process.exit(1);
+  const eventName = isStopEvent ? "Stop" : input.hook_event_name;
+  const handler = EVENT_HANDLERS[eventName] ?? handleNotification;
+  await handler({ ...hookBase, input });
 }
 
 main().catch((error) => {
@@ -0,0 +1,169 @@
+import { isAbsolute, relative } from "node:path";
+import { getPolicyPath } from "./config";
+import type {
+  PolicyAction,
+  PolicyDecision,
+  PolicyFile,
+  PolicyRule,
+  PolicyTarget,
+} from "./types";
+
+const POLICY_ACTIONS: PolicyAction[] = ["allow", "deny", "ask"];
+
+// Tools whose input points at a file
+const PATH_FIELDS = ["file_path", "notebook_path", "path"];
+
+// Patterns compiled by loadPolicy, so matching never hits a bad regex
+const compiledPatterns = new Map<string, RegExp>();
+
+function compileRegex(pattern: string): RegExp {
+  let regex = compiledPatterns.get(pattern);
+  if (!regex) {
+    regex = new RegExp(pattern);
+    compiledPatterns.set(pattern, regex);
+  }
+  return regex;
+}
+
+// `tool` must match the whole tool name, e.g. "Edit" not "MultiEdit"
+function toolPattern(tool: string): string {
+  return `^(?:${tool})$`;
+}
+
+function validateRule(rule: PolicyRule, index: number, path: string): void {
+  if (!POLICY_ACTIONS.includes(rule.action)) {
+    throw new Error(
+      `Invalid policy at ${path}: rules[${index}].action must be one of ${POLICY_ACTIONS.join(", ")}.`
+    );
+  }
+  if (
+    rule.quorum !== undefined &&
+    !(Number.isInteger(rule.quorum) && rule.quorum >= 1)
+  ) {
+    throw new Error(
+      `Invalid policy at ${path}: rules[${index}].quorum must be a positive integer.`
+    );
+  }
+
+  const patterns = {
+    tool: rule.tool === undefined ? undefined : toolPattern(rule.tool),
+    command: rule.command,
+  };
+  for (const [field, pattern] of Object.entries(patterns)) {
+    if (pattern === undefined) {
+      continue;
+    }
+    try {
+      compileRegex(pattern);
+    } catch (error) {
+      throw new Error(
+        `Invalid policy at ${path}: rules[${index}].${field} is not a valid regex (${(error as Error).message}).`
+      );
+    }
+  }
+}
+
+export async function loadPolicy(
+  path = getPolicyPath()
+): Promise<PolicyFile | null> {
+  const file = Bun.file(path);
+
+  if (!(await file.exists())) {
+    return null;
+  }
+
+  let policy: PolicyFile;
+  try {
+    policy = await file.json();
+  } catch (error) {
+    throw new Error(`Invalid policy at ${path}: ${(error as Error).message}`);
+  }
+
+  if (!Array.isArray(policy.rules)) {
+    throw new Error(`Invalid policy at ${path}: "rules" must be an array.`);
+  }
+
+  policy.rules.forEach((rule, index) => {
+    validateRule(rule, index, path);
+  });
+
+  return policy;
+}
+
+function matchesRegex(pattern: string, value: string | undefined): boolean {
+  return value !== undefined && compileRegex(pattern).test(value);
+}
+
+function matchesGlob(pattern: string, value: string | undefined): boolean {
+  return value !== undefined && new Bun.Glob(pattern).match(value);
+}
+
+function targetPath(target: PolicyTarget): string | undefined {
+  for (const field of PATH_FIELDS) {
+    const value = target.toolInput?.[field];
+    if (typeof value === "string") {
+      return value;
+    }
+  }
+  return;
+}
+
+function matchesPath(pattern: string, target: PolicyTarget): boolean {
+  const path = targetPath(target);
+  if (path === undefined) {
+    return false;
+  }
+
+  // Let rules use either absolute globs or globs relative to the project
+  const relativePath = isAbsolute(path) ? relative(target.cwd, path) : path;
+  return matchesGlob(pattern, path) || matchesGlob(pattern, relativePath);
+}
+
+function matchesRule(rule: PolicyRule, target: PolicyTarget): boolean {
+  const command = target.toolInput?.command;
+
+  if (rule.tool && !matchesRegex(toolPattern(rule.tool), target.toolName)) {
+    return false;
+  }
+  if (
+    rule.command &&
+    !matchesRegex(
+      rule.command,
+      typeof command === "string" ? command : undefined
+    )
+  ) {
+    return false;
+  }
+  if (rule.path && !matchesPath(rule.path, target)) {
+    return false;
+  }
+  if (rule.cwd && !matchesGlob(rule.cwd, target.cwd)) {
+    return false;
+  }
+  if (rule.branch && !matchesGlob(rule.branch, target.gitBranch)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Returns the action of the first matching rule, or "ask" when none match.
+ */
+export function evaluatePolicy(
+  policy: PolicyFile,
+  target: PolicyTarget
+): PolicyDecision {
+  const rule = policy.rules.find((candidate) => matchesRule(candidate, target));
+
+  if (!rule) {
+    return { action: "ask", notify: false };
+  }
+
+  return {
+    action: rule.action,
+    rule,
+    reason: rule.reason,
+    notify: rule.notify ?? policy.notify ?? false,
+    quorum: rule.action === "ask" ? rule.quorum : undefined,
+  };
+}
@@ -0,0 +1,251 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scryptSync,
+} from "node:crypto";
+import { chmod, mkdir, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { getSecretsPath } from "./config";
+
+export type SecretBackendName = "secret-tool" | "pass" | "file";
+
+/**
+ * Somewhere a secret can live outside config.json. Config files refer to
+ * a secret as "<backend>:<key>", e.g. "secret-tool:default".
+ */
+export interface SecretBackend {
+  name: SecretBackendName;
+  description: string;
+  isAvailable(): Promise<boolean>;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<void>;
+}
+
+// Service attribute for secret-tool and folder for pass
+const SERVICE = "claude-telegram";
+const PASSPHRASE_ENV = "CLAUDE_TELEGRAM_PASSPHRASE";
+
+interface CommandResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+}
+
+async function runCommand(
+  command: string[],
+  input?: string
+): Promise<CommandResult> {
+  const proc = Bun.spawn(command, {
+    stdin: input === undefined ? "ignore" : new Blob([input]),
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+  const [stdout, stderr, exitCode] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+    proc.exited,
+  ]);
+  return { exitCode, stdout, stderr };
+}
+
+function commandExists(command: string): Promise<boolean> {
+  return Promise.resolve(Bun.which(command) !== null);
+}
+
+const secretToolBackend: SecretBackend = {
+  name: "secret-tool",
+  description: "OS keyring (Secret Service via secret-tool)",
+  isAvailable: () => commandExists("secret-tool"),
+  async get(key) {
+    const result = await runCommand([
+      "secret-tool",
+      "lookup",
+      "service",
+      SERVICE,
+      "account",
+      key,
+    ]);
+    return result.exitCode === 0 && result.stdout ? result.stdout : null;
+  },
+  async set(key, value) {
+    const result = await runCommand(
+      [
+        "secret-tool",
+        "store",
+        `--label=${SERVICE} ${key}`,
+        "service",
+        SERVICE,
+        "account",
+        key,
+      ],
+      value
+    );
+    if (result.exitCode !== 0) {
+      throw new Error(`secret-tool store failed: ${result.stderr.trim()}`);
+    }
+  },
+};
+
+const passBackend: SecretBackend = {
+  name: "pass",
+  description: "pass, the standard Unix password manager",
+  isAvailable: () => commandExists("pass"),
+  async get(key) {
+    const result = await runCommand(["pass", "show", `${SERVICE}/${key}`]);
+    if (result.exitCode !== 0) {
+      return null;
+    }
+    // pass keeps the secret on the first line
+    return result.stdout.split("\n")[0] || null;
+  },
+  async set(key, value) {
+    const result = await runCommand(
+      ["pass", "insert", "--multiline", "--force", `${SERVICE}/${key}`],
+      `${value}\n`
+    );
+    if (result.exitCode !== 0) {
+      throw new Error(`pass insert failed: ${result.stderr.trim()}`);
+    }
+  },
+};
+
+interface EncryptedSecret {
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+function getPassphrase(): string {
+  const passphrase = process.env[PASSPHRASE_ENV];
+  if (!passphrase) {
+    throw new Error(
+      `Set ${PASSPHRASE_ENV} to unlock secrets in ${getSecretsPath()}.`
+    );
+  }
+  return passphrase;
+}
+
+export function encryptSecret(
+  value: string,
+  passphrase: string
+): EncryptedSecret {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(
+    "aes-256-gcm",
+    scryptSync(passphrase, salt, 32),
+    iv
+  );
+  const data = Buffer.concat([cipher.update(value, "utf8"), cipher.final()]);
+
+  return {
+    salt: salt.toString("base64"),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+}
+
+export function decryptSecret(
+  secret: EncryptedSecret,
+  passphrase: string
+): string {
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    scryptSync(passphrase, Buffer.from(secret.salt, "base64"), 32),
+    Buffer.from(secret.iv, "base64")
+  );
+  decipher.setAuthTag(Buffer.from(secret.tag, "base64"));
+
+  try {
+    return Buffer.concat([
+      decipher.update(Buffer.from(secret.data, "base64")),
+      decipher.final(),
+    ]).toString("utf8");
+  } catch {
+    throw new Error(`Wrong ${PASSPHRASE_ENV} for ${getSecretsPath()}.`);
+  }
+}
+
+async function readSecretsFile(): Promise<Record<string, EncryptedSecret>> {
+  const file = Bun.file(getSecretsPath());
+  return (await file.exists()) ? await file.json() : {};
+}
+
+const fileBackend: SecretBackend = {
+  name: "file",
+  description: `Encrypted file, unlocked by ${PASSPHRASE_ENV}`,
+  isAvailable: () => Promise.resolve(true),
+  async get(key) {
+    const secret = (await readSecretsFile())[key];
+    return secret ? decryptSecret(secret, getPassphrase()) : null;
+  },
+  async set(key, value) {
+    const secrets = await readSecretsFile();
+    secrets[key] = encryptSecret(value, getPassphrase());
+    await writePrivateFile(getSecretsPath(), JSON.stringify(secrets, null, 2));
+  },
+};
+
+const BACKENDS: SecretBackend[] = [secretToolBackend, passBackend, fileBackend];
+
+export function getSecretBackend(name: string): SecretBackend | undefined {
+  return BACKENDS.find((backend) => backend.name === name);
+}
+
+export async function getAvailableBackends(): Promise<SecretBackend[]> {
+  const available = await Promise.all(
+    BACKENDS.map((backend) => backend.isAvailable())
+  );
+  return BACKENDS.filter((_, index) => available[index]);
+}
+
+function parseSecretRef(ref: string): { backend: SecretBackend; key: string } {
+  const separator = ref.indexOf(":");
+  const backend = getSecretBackend(ref.slice(0, separator));
+  const key = ref.slice(separator + 1);
+  if (separator === -1 || !backend || !key) {
+    throw new Error(
+      `Invalid secret reference "${ref}". Expected <backend>:<key> with backend ${BACKENDS.map((b) => b.name).join(", ")}.`
+    );
+  }
+  return { backend, key };
+}
+
+/**
+ * Stores a secret and returns the reference to put in config.json.
+ */
+export async function storeSecret(
+  backendName: SecretBackendName,
+  key: string,
+  value: string
+): Promise<string> {
+  const ref = `${backendName}:${key}`;
+  const { backend } = parseSecretRef(ref);
+  await backend.set(key, value);
+  return ref;
+}
+
+export async function resolveSecretRef(ref: string): Promise<string> {
+  const { backend, key } = parseSecretRef(ref);
+  const value = await backend.get(key);
+  if (!value) {
+    throw new Error(`Secret "${ref}" not found in ${backend.description}.`);
+  }
+  return value.trim();
+}
+
+/**
+ * Writes a file only its owner can read. The chmod also tightens files
+ * that already existed with a wider mode.
+ */
+export async function writePrivateFile(
+  path: string,
+  content: string
+): Promise<void> {
+  await mkdir(dirname(path), { recursive: true, mode: 0o700 });
+  await writeFile(path, content, { mode: 0o600 });
+  await chmod(path, 0o600);
+}
@@ -0,0 +1,103 @@
+import { getSessionsPath } from "./config";
+import { withFileLock, writeFileAtomic } from "./state-file";
+import type { ClaudeHookInput, SessionRecord } from "./types";
+
+// Sessions with no hook activity for this long count as gone, e.g. after
+// a crash that skipped SessionEnd
+const SESSION_IDLE_MS = 12 * 60 * 60 * 1000;
+// Hooks fire on every tool call; refreshing lastSeenAt more often than
+// this would only add writes
+const TOUCH_INTERVAL_MS = 60_000;
+
+export async function loadSessions(
+  path = getSessionsPath()
+): Promise<SessionRecord[]> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) {
+    return [];
+  }
+
+  try {
+    const stored = (await file.json()) as { sessions?: SessionRecord[] };
+    return stored.sessions ?? [];
+  } catch {
+    return [];
+  }
+}
+
+async function saveSessions(
+  sessions: SessionRecord[],
+  path: string
+): Promise<void> {
+  await writeFileAtomic(path, JSON.stringify({ sessions }, null, 2));
+}
+
+export function getActiveSessions(
+  sessions: SessionRecord[],
+  now = Date.now()
+): SessionRecord[] {
+  return sessions.filter(
+    (session) => now - session.lastSeenAt < SESSION_IDLE_MS
+  );
+}
+
+/**
+ * Records that a hook ran for a session, or forgets the session when the
+ * hook is SessionEnd. Hooks of parallel sessions take turns through a
+ * lock file, so none of them drops another's record.
+ */
+export function trackSession(
+  input: ClaudeHookInput,
+  projectName: string,
+  gitBranch: string | undefined,
+  path = getSessionsPath(),
+  now = Date.now()
+): Promise<void> {
+  return withFileLock(path, () =>
+    updateSessions(input, projectName, gitBranch, path, now)
+  );
+}
+
+async function updateSessions(
+  input: ClaudeHookInput,
+  projectName: string,
+  gitBranch: string | undefined,
+  path: string,
+  now: number
+): Promise<void> {
+  const sessions = getActiveSessions(await loadSessions(path), now);
+  const existing = sessions.find(
+    (session) => session.sessionId === input.session_id
+  );
+
+  if (input.hook_event_name === "SessionEnd") {
+    if (existing) {
+      await saveSessions(
+        sessions.filter((session) => session !== existing),
+        path
+      );
+    }
+    return;
+  }
+
+  if (existing) {
+    if (
+      now - existing.lastSeenAt < TOUCH_INTERVAL_MS &&
+      existing.gitBranch === gitBranch
+    ) {
+      return;
+    }
+    existing.lastSeenAt = now;
+    existing.gitBranch = gitBranch;
+  } else {
+    sessions.push({
+      sessionId: input.session_id,
+      projectName,
+      gitBranch,
+      cwd: input.cwd,
+      startedAt: now,
+      lastSeenAt: now,
+    });
+  }
+  await saveSessions(sessions, path);
+}
@@ -0,0 +1,386 @@
+import { copyFile, mkdir } from "node:fs/promises";
+import { homedir } from "node:os";
+import { basename, dirname, join } from "node:path";
+import { LIFECYCLE_EVENTS } from "./events";
+import type { LifecycleEvent } from "./types";
+
+/**
+ * Which Claude Code settings file hooks go into: the user's global
+ * settings, the project's shared settings, or the project's local
+ * (uncommitted) settings.
+ */
+export type SettingsScope = "user" | "project" | "local";
+
+export const SETTINGS_SCOPES: SettingsScope[] = ["user", "project", "local"];
+
+export interface HookCommand {
+  type: "command";
+  command: string;
+  timeout?: number;
+}
+
+export interface HookMatcher {
+  matcher?: string;
+  hooks: HookCommand[];
+}
+
+export type HooksSettings = Record<string, HookMatcher[]>;
+
+export interface ClaudeSettings {
+  hooks?: HooksSettings;
+  [key: string]: unknown;
+}
+
+/**
+ * How approvals reach Telegram: via Claude Code's permission prompt
+ * notification (exit codes), or via PreToolUse (allow/deny decisions).
+ */
+export type ApprovalHook = "notification" | "pre-tool-use";
+
+export interface InstalledHook {
+  event: string;
+  matcher: string;
+  command: string;
+  timeout?: number;
+}
+
+export interface SettingsWriteResult {
+  path: string;
+  changed: boolean;
+  // Copy of the file as it was before this write, if it existed
+  backupPath?: string;
+}
+
+// What an install chose besides the hooks it always adds
+export interface HookChoices {
+  approvalHook: ApprovalHook;
+  events: LifecycleEvent[];
+}
+
+// Every hook command this tool installs starts with the binary name
+const COMMAND = "claude-telegram";
+export const PRE_TOOL_USE_MATCHER = "Bash|Edit|MultiEdit|Write";
+// Questions are answered by the Elicitation hook, not the notification
+const NOTIFICATION_MATCHER = "permission_prompt";
+const APPROVAL_TIMEOUT = 3600;
+// Covers the wait for a "Continue with…" reply (continueTimeout)
+const STOP_TIMEOUT = 3600;
+const EVENT_TIMEOUT = 30;
+// What Claude Code allows a hook command that sets no timeout
+const DEFAULT_HOOK_TIMEOUT = 60;
+const WHITESPACE = /\s+/;
+
+export function getSettingsPath(
+  scope: SettingsScope,
+  cwd: string = process.cwd()
+): string {
+  switch (scope) {
+    case "project":
+      return join(cwd, ".claude", "settings.json");
+    case "local":
+      return join(cwd, ".claude", "settings.local.json");
+    default:
+      return join(homedir(), ".claude", "settings.json");
+  }
+}
+
+/**
+ * Whether a hook command runs claude-telegram, by name or full path.
+ * Anything else in settings.json belongs to the user and is left alone.
+ */
+export function isOwnCommand(command: string): boolean {
+  return basename(getCommandProgram(command)) === COMMAND;
+}
+
+export function getCommandProgram(command: string): string {
+  return command.trim().split(WHITESPACE, 1)[0] ?? "";
+}
+
+/**
+ * Claude Code reports failed tool calls, e.g. a Bash command exiting
+ * non-zero, as PostToolUseFailure, so it is installed with PostToolUse.
+ */
+function getHookEvents(event: LifecycleEvent): string[] {
+  return event === "PostToolUse" ? [event, "PostToolUseFailure"] : [event];
+}
+
+/**
+ * The hooks to install: approvals, MCP questions (Elicitation), Stop, and
+ * any lifecycle events asked for. Lifecycle hooks run the plain command,
+ * which dispatches on hook_event_name.
+ */
+export function buildHookEntries(
+  approvalHook: ApprovalHook = "notification",
+  events: LifecycleEvent[] = []
+): HooksSettings {
+  const approval: HookCommand = {
+    type: "command",
+    command: COMMAND,
+    timeout: APPROVAL_TIMEOUT,
+  };
+
+  return {
+    ...(approvalHook === "pre-tool-use"
+      ? { PreToolUse: [{ matcher: PRE_TOOL_USE_MATCHER, hooks: [approval] }] }
+      : {
+          Notification: [{ matcher: NOTIFICATION_MATCHER, hooks: [approval] }],
+        }),
+    Elicitation: [{ matcher: "", hooks: [approval] }],
+    Stop: [
+      {
+        matcher: "",
+        hooks: [
+          {
+            type: "command",
+            command: `${COMMAND} --event=stop`,
+            timeout: STOP_TIMEOUT,
+          },
+        ],
+      },
+    ],
+    ...Object.fromEntries(
+      events.flatMap(getHookEvents).map((event) => [
+        event,
+        [
+          {
+            matcher: "",
+            hooks: [
+              { type: "command", command: COMMAND, timeout: EVENT_TIMEOUT },
+            ],
+          },
+        ],
+      ])
+    ),
+  };
+}
+
+/**
+ * Drops claude-telegram commands from every event. Matcher groups and
+ * events left empty are dropped too; everything else is kept as is.
+ */
+export function removeOwnHooks(hooks: HooksSettings = {}): HooksSettings {
+  const result: HooksSettings = {};
+  for (const [event, matchers] of Object.entries(hooks)) {
+    const kept = matchers
+      .map((group) => ({
+        ...group,
+        hooks: group.hooks.filter((hook) => !isOwnCommand(hook.command)),
+      }))
+      .filter((group) => group.hooks.length > 0);
+    if (kept.length > 0) {
+      result[event] = kept;
+    }
+  }
+  return result;
+}
+
+/**
+ * Replaces claude-telegram's hooks with `entries`, appending them after
+ * the user's own hooks. Merging the same entries twice is a no-op.
+ */
+export function mergeHooks(
+  hooks: HooksSettings | undefined,
+  entries: HooksSettings
+): HooksSettings {
+  const result = removeOwnHooks(hooks);
+  for (const [event, matchers] of Object.entries(entries)) {
+    result[event] = [...(result[event] ?? []), ...matchers];
+  }
+  return result;
+}
+
+export function listOwnHooks(hooks: HooksSettings = {}): InstalledHook[] {
+  return Object.entries(hooks).flatMap(([event, matchers]) =>
+    matchers.flatMap((group) =>
+      group.hooks
+        .filter((hook) => isOwnCommand(hook.command))
+        .map((hook) => ({
+          event,
+          matcher: group.matcher ?? "",
+          command: hook.command,
+          timeout: hook.timeout,
+        }))
+    )
+  );
+}
+
+/**
+ * Reads back what an earlier install chose from its hooks, so installing
+ * again without naming them keeps it.
+ */
+export function getInstalledChoices(hooks?: HooksSettings): HookChoices {
+  const installed = new Set(listOwnHooks(hooks).map((hook) => hook.event));
+  return {
+    approvalHook: installed.has("PreToolUse") ? "pre-tool-use" : "notification",
+    events: LIFECYCLE_EVENTS.filter((event) => installed.has(event)),
+  };
+}
+
+/**
+ * Reads a settings file, or returns empty settings when it doesn't exist.
+ * A file that isn't valid JSON is an error, so it never gets overwritten.
+ */
+export async function readSettings(path: string): Promise<ClaudeSettings> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) {
+    return {};
+  }
+
+  const text = await file.text();
+  if (!text.trim()) {
+    return {};
+  }
+  try {
+    return JSON.parse(text) as ClaudeSettings;
+  } catch (error) {
+    throw new Error(
+      `Invalid JSON in ${path} (${(error as Error).message}). Fix it before changing hooks.`
+    );
+  }
+}
+
+function backupSuffix(date: Date): string {
+  // File-name safe, e.g. 2026-10-19T14-03-22
+  return date.toISOString().slice(0, 19).replaceAll(":", "-");
+}
+
+async function writeSettings(
+  path: string,
+  settings: ClaudeSettings
+): Promise<SettingsWriteResult> {
+  const before = await readSettings(path);
+  const content = `${JSON.stringify(settings, null, 2)}\n`;
+  if (JSON.stringify(before) === JSON.stringify(settings)) {
+    return { path, changed: false };
+  }
+
+  let backupPath: string | undefined;
+  if (await Bun.file(path).exists()) {
+    backupPath = `${path}.${backupSuffix(new Date())}.bak`;
+    await copyFile(path, backupPath);
+  }
+
+  await mkdir(dirname(path), { recursive: true });
+  await Bun.write(path, content);
+  return { path, changed: true, backupPath };
+}
+
+/**
+ * Installs the given set of hooks. Lifecycle events left out are removed,
+ * so re-running an install with fewer events turns them off. Choices not
+ * given keep what is installed, or the defaults on a first install.
+ */
+export async function installHooks(
+  path: string,
+  approvalHook?: ApprovalHook,
+  events?: LifecycleEvent[]
+): Promise<SettingsWriteResult & HookChoices> {
+  const settings = await readSettings(path);
+  const installed = getInstalledChoices(settings.hooks);
+  const choices: HookChoices = {
+    approvalHook: approvalHook ?? installed.approvalHook,
+    events: events ?? installed.events,
+  };
+  const result = await writeSettings(path, {
+    ...settings,
+    hooks: mergeHooks(
+      settings.hooks,
+      buildHookEntries(choices.approvalHook, choices.events)
+    ),
+  });
+  return { ...result, ...choices };
+}
+
+export async function uninstallHooks(
+  path: string
+): Promise<SettingsWriteResult> {
+  const settings = await readSettings(path);
+  if (listOwnHooks(settings.hooks).length === 0) {
+    return { path, changed: false };
+  }
+
+  const hooks = removeOwnHooks(settings.hooks);
+  const { hooks: _removed, ...rest } = settings;
+  return await writeSettings(
+    path,
+    Object.keys(hooks).length > 0 ? { ...rest, hooks } : rest
+  );
+}
+
+export interface HooksStatus {
+  scope: SettingsScope;
+  path: string;
+  exists: boolean;
+  hooks: InstalledHook[];
+  error?: string;
+}
+
+export async function getHooksStatus(
+  cwd: string = process.cwd()
+): Promise<HooksStatus[]> {
+  return await Promise.all(
+    SETTINGS_SCOPES.map(async (scope) => {
+      const path = getSettingsPath(scope, cwd);
+      const exists = await Bun.file(path).exists();
+      try {
+        const settings = await readSettings(path);
+        return { scope, path, exists, hooks: listOwnHooks(settings.hooks) };
+      } catch (error) {
+        return {
+          scope,
+          path,
+          exists,
+          hooks: [],
+          error: (error as Error).message,
+        };
+      }
+    })
+  );
+}
+
+/**
+ * Seconds Claude Code gives claude-telegram's hook for an event before
+ * killing it: the shortest timeout among the installed entries. Undefined
+ * when no settings file installs one, e.g. when the command runs by hand.
+ */
+export function getHookTimeout(
+  statuses: HooksStatus[],
+  event: string
+): number | undefined {
+  const timeouts = statuses
+    .flatMap((status) => status.hooks)
+    .filter((hook) => hook.event === event)
+    .map((hook) => hook.timeout ?? DEFAULT_HOOK_TIMEOUT);
+  return timeouts.length > 0 ? Math.min(...timeouts) : undefined;
+}
+
+export async function getInstalledHookTimeout(
+  event: string,
+  cwd: string = process.cwd()
+): Promise<number | undefined> {
+  return getHookTimeout(await getHooksStatus(cwd), event);
+}
+
+function formatHook(hook: InstalledHook): string {
+  const matcher = hook.matcher ? ` [${hook.matcher}]` : "";
+  const timeout = hook.timeout ? ` (timeout ${hook.timeout}s)` : "";
+  return `  ${hook.event}${matcher}: ${hook.command}${timeout}`;
+}
+
+export function formatHooksStatus(statuses: HooksStatus[]): string {
+  return statuses
+    .map((status) => {
+      const header = `${status.scope}: ${status.path}`;
+      if (status.error) {
+        return `${header}\n  ${status.error}`;
+      }
+      if (!status.exists) {
+        return `${header}\n  (no file)`;
+      }
+      if (status.hooks.length === 0) {
+        return `${header}\n  (not installed)`;
+      }
+      return [header, ...status.hooks.map(formatHook)].join("\n");
+    })
+    .join("\n\n");
+}
@@ -1,21 +1,171 @@
-import { mkdir } from "node:fs/promises";
-import { homedir } from "node:os";
-import { join } from "node:path";
-import { configExists, getConfigPath, saveConfig } from "./config";
+import { getArgValue } from "./args";
+import { registerCommands } from "./commands";
+import {
+  getConfigPath,
+  PROJECT_CONFIG_FILE,
+  type ProfileConfig,
+  readStoredConfig,
+  type StoredConfig,
+  saveConfig,
+} from "./config";
+import { LIFECYCLE_EVENTS, parseEventList } from "./events";
+import {
+  getAvailableBackends,
+  getSecretBackend,
+  resolveSecretRef,
+  type SecretBackendName,
+  storeSecret,
+} from "./secrets";
+import {
+  type ApprovalHook,
+  getSettingsPath,
+  installHooks,
+  PRE_TOOL_USE_MATCHER,
+  SETTINGS_SCOPES,
+  type SettingsScope,
+} from "./settings";
 import { TelegramClient } from "./telegram";
+import type { LifecycleEvent } from "./types";
+
+const PROFILE_NAME = /^[A-Za-z0-9_-]+$/;
+
+export type TokenStorage = SecretBackendName | "config";
+
+/**
+ * Answers for the wizard's steps, from flags or env vars. Anything left
+ * unset is asked for, or is an error with `nonInteractive`.
+ */
+export interface SetupOptions {
+  token?: string;
+  chatId?: string;
+  // Add or update this named profile instead of the default one
+  profile?: string;
+  route?: string;
+  tokenStorage?: TokenStorage;
+  hooks?: boolean;
+  approvalHook?: ApprovalHook;
+  // Lifecycle events to notify about besides approvals and Stop
+  events?: LifecycleEvent[];
+  // Settings file the hooks go into; defaults to the user's
+  scope?: SettingsScope;
+  test: boolean;
+  yes: boolean;
+  nonInteractive: boolean;
+  json: boolean;
+}
 
-const CLAUDE_SETTINGS_PATH = join(homedir(), ".claude", "settings.json");
+export interface SetupResult {
+  ok: true;
+  configPath: string;
+  profile: string | null;
+  botId: string;
+  chatId: string;
+  tokenStorage: string;
+  hooks: {
+    installed: boolean;
+    approvalHook?: ApprovalHook;
+    events?: LifecycleEvent[];
+    path?: string;
+    backupPath?: string;
+  };
+}
+
+const TOKEN_STORAGES: TokenStorage[] = [
+  "secret-tool",
+  "pass",
+  "file",
+  "config",
+];
+const APPROVAL_HOOKS: ApprovalHook[] = ["notification", "pre-tool-use"];
+
+// Progress and prompts go to stderr when stdout is reserved for the
+// JSON result
+let log: (...data: unknown[]) => void = console.log;
+let promptOutput: NodeJS.WriteStream = process.stdout;
+
+function oneOf<T extends string>(
+  value: string | undefined,
+  allowed: T[],
+  flag: string
+): T | undefined {
+  if (value === undefined) {
+    return;
+  }
+  if (!allowed.includes(value as T)) {
+    throw new Error(`${flag} must be one of ${allowed.join(", ")}.`);
+  }
+  return value as T;
+}
+
+function parseHooksFlag(args: string[]): boolean | undefined {
+  if (args.includes("--no-hooks")) {
+    return false;
+  }
+  return args.includes("--hooks") ? true : undefined;
+}
+
+// Non-interactive runs are for scripts, so they answer in JSON too
+function wantsJson(args: string[]): boolean {
+  return args.includes("--non-interactive") || args.includes("--json");
+}
+
+export function parseSetupOptions(
+  args: string[],
+  env: Record<string, string | undefined> = process.env
+): SetupOptions {
+  const nonInteractive = args.includes("--non-interactive");
+  const events = getArgValue(args, "--events");
+
+  return {
+    token: getArgValue(args, "--token") ?? env.TELEGRAM_BOT_TOKEN,
+    chatId: getArgValue(args, "--chat-id") ?? env.TELEGRAM_CHAT_ID,
+    profile: getArgValue(args, "--profile"),
+    route: getArgValue(args, "--route"),
+    tokenStorage: oneOf(
+      getArgValue(args, "--token-storage") ?? env.CLAUDE_TELEGRAM_TOKEN_STORAGE,
+      TOKEN_STORAGES,
+      "--token-storage"
+    ),
+    hooks: parseHooksFlag(args),
+    approvalHook: oneOf(
+      getArgValue(args, "--approval-hook"),
+      APPROVAL_HOOKS,
+      "--approval-hook"
+    ),
+    events: events === undefined ? undefined : parseEventList(events),
+    scope: oneOf(getArgValue(args, "--scope"), SETTINGS_SCOPES, "--scope"),
+    test: !args.includes("--no-test"),
+    yes: args.includes("--yes") || args.includes("-y"),
+    nonInteractive,
+    json: wantsJson(args),
+  };
+}
 
 async function prompt(question: string): Promise<string> {
-  process.stdout.write(question);
+  promptOutput.write(question);
   for await (const line of console) {
     return line.trim();
   }
   return "";
 }
 
+/**
+ * Asks a question, unless running non-interactively, where a missing
+ * answer is an error naming the flag that provides it.
+ */
+function ask(
+  options: SetupOptions,
+  question: string,
+  missing: string
+): Promise<string> {
+  if (options.nonInteractive) {
+    throw new Error(`Missing ${missing}.`);
+  }
+  return prompt(question);
+}
+
 function printHeader(): void {
-  console.log(`
+  log(`
 ╔═══════════════════════════════════════════════════════════╗
 ║         Claude Code Telegram Notifier - Setup             ║
 ╚═══════════════════════════════════════════════════════════╝
@@ -23,12 +173,25 @@ function printHeader(): void {
 }
 
 function printStep(step: number, total: number, message: string): void {
-  console.log(`\n[${step}/${total}] ${message}`);
-  console.log("─".repeat(50));
+  log(`\n[${step}/${total}] ${message}`);
+  log("─".repeat(50));
+}
+
+function validateToken(token: string): string {
+  if (!token.includes(":")) {
+    throw new Error(
+      "Invalid token format. Should be like: 123456789:ABCdefGHIjklMNOpqrsTUVwxyz"
+    );
+  }
+  return token;
 }
 
-async function getBotToken(): Promise<string> {
-  console.log(`
+async function getBotToken(options: SetupOptions): Promise<string> {
+  if (options.token) {
+    return validateToken(options.token);
+  }
+
+  log(`
 To create a Telegram bot:
 1. Open Telegram and search for @BotFather
 2. Send /newbot command
@@ -37,19 +200,54 @@ To create a Telegram bot:
 5. Copy the token provided
 `);
 
-  const token = await prompt("Paste your bot token: ");
+  const token = await ask(
+    options,
+    "Paste your bot token: ",
+    "--token (or TELEGRAM_BOT_TOKEN)"
+  );
+  return validateToken(token);
+}
 
-  if (!token?.includes(":")) {
-    throw new Error(
-      "Invalid token format. Should be like: 123456789:ABCdefGHIjklMNOpqrsTUVwxyz"
-    );
-  }
+async function detectChatId(botToken: string): Promise<string | undefined> {
+  const response = await fetch(
+    `https://api.telegram.org/bot${botToken}/getUpdates`
+  );
+  const data = (await response.json()) as {
+    ok: boolean;
+    result?: Array<{
+      message?: { chat?: { id?: number } };
+      callback_query?: { message?: { chat?: { id?: number } } };
+    }>;
+  };
 
-  return token;
+  const lastUpdate = data.ok ? data.result?.at(-1) : undefined;
+  return (
+    lastUpdate?.message?.chat?.id?.toString() ??
+    lastUpdate?.callback_query?.message?.chat?.id?.toString()
+  );
 }
 
-async function getChatId(botToken: string): Promise<string> {
-  console.log(`
+async function getChatId(
+  botToken: string,
+  options: SetupOptions
+): Promise<string> {
+  if (options.chatId) {
+    return options.chatId;
+  }
+
+  if (options.nonInteractive) {
+    // Fall back to the chat of the latest message sent to the bot
+    const detected = await detectChatId(botToken);
+    if (!detected) {
+      throw new Error(
+        "Missing --chat-id (or TELEGRAM_CHAT_ID), and no message to the bot to detect it from."
+      );
+    }
+    log(`Found chat ID: ${detected}`);
+    return detected;
+  }
+
+  log(`
 To get your Chat ID:
 1. Open a chat with your new bot in Telegram
 2. Send any message to the bot (e.g., "hello")
@@ -58,34 +256,16 @@ To get your Chat ID:
 
   await prompt("Press Enter after sending a message to your bot...");
 
-  console.log("\nFetching chat ID...");
+  log("\nFetching chat ID...");
 
   try {
-    const response = await fetch(
-      `https://api.telegram.org/bot${botToken}/getUpdates`
-    );
-    const data = (await response.json()) as {
-      ok: boolean;
-      result?: Array<{
-        message?: { chat?: { id?: number } };
-        callback_query?: { message?: { chat?: { id?: number } } };
-      }>;
-    };
-
-    if (data.ok && data.result && data.result.length > 0) {
-      const lastUpdate = data.result.at(-1);
-      const chatId = lastUpdate
-        ? (lastUpdate.message?.chat?.id?.toString() ??
-          lastUpdate.callback_query?.message?.chat?.id?.toString())
-        : undefined;
-
-      if (chatId) {
-        console.log(`Found chat ID: ${chatId}`);
-        return chatId;
-      }
+    const chatId = await detectChatId(botToken);
+    if (chatId) {
+      log(`Found chat ID: ${chatId}`);
+      return chatId;
     }
 
-    console.log("\nCouldn't detect chat ID automatically.");
+    log("\nCouldn't detect chat ID automatically.");
     return await prompt("Enter your chat ID manually: ");
   } catch (error) {
     console.error("Error fetching updates:", error);
@@ -97,7 +277,7 @@ async function testConnection(
   botToken: string,
   chatId: string
 ): Promise<boolean> {
-  console.log("\nTesting connection...");
+  log("\nTesting connection...");
 
   const client = new TelegramClient({
     botToken,
@@ -110,6 +290,7 @@ async function testConnection(
     await client.sendSimpleNotification(
       "<b>Claude Code Telegram</b>\n\nSetup successful! You will receive notifications here."
     );
+    await registerCommands(client);
     return true;
   } catch (error) {
     console.error("Failed to send test message:", (error as Error).message);
@@ -117,112 +298,274 @@ async function testConnection(
   }
 }
 
-async function installHooks(): Promise<boolean> {
-  console.log("\nConfiguring Claude Code hooks...");
-
-  // Use claude-telegram command (works for both npm install and binary)
-  const command = "claude-telegram";
-
-  const hooksConfig = {
-    Notification: [
-      {
-        matcher: "permission_prompt",
-        hooks: [
-          {
-            type: "command",
-            command,
-            timeout: 3600,
-          },
-        ],
-      },
-    ],
-    Stop: [
-      {
-        matcher: "",
-        hooks: [
-          {
-            type: "command",
-            command: `${command} --event=stop`,
-            timeout: 30,
-          },
-        ],
-      },
-    ],
-  };
+async function verifyConnection(
+  botToken: string,
+  chatId: string,
+  options: SetupOptions
+): Promise<void> {
+  if (!options.test) {
+    log("Skipping the connection test (--no-test).");
+    return;
+  }
+  if (!(await testConnection(botToken, chatId))) {
+    throw new Error("Failed to connect. Please check your token and chat ID.");
+  }
+  log("Connection successful!");
+}
 
-  try {
-    const settingsFile = Bun.file(CLAUDE_SETTINGS_PATH);
-    let settings: Record<string, unknown> = {};
+type TokenFields = Pick<ProfileConfig, "botToken" | "botTokenRef">;
 
-    if (await settingsFile.exists()) {
-      settings = await settingsFile.json();
-    }
+async function askTokenStorage(options: SetupOptions): Promise<TokenStorage> {
+  const backends = await getAvailableBackends();
+  log("\nWhere should the bot token be stored?");
+  backends.forEach((backend, index) => {
+    log(`  ${index + 1}. ${backend.description}`);
+  });
+  log(`  ${backends.length + 1}. config.json (plaintext, mode 600)`);
 
-    const existingHooks = (settings.hooks as Record<string, unknown[]>) ?? {};
+  const answer = await ask(
+    options,
+    `Choice (1-${backends.length + 1}) [1]: `,
+    "--token-storage"
+  );
+  return backends[(Number(answer) || 1) - 1]?.name ?? "config";
+}
 
-    settings.hooks = {
-      ...existingHooks,
-      ...hooksConfig,
-    };
+/**
+ * Stores the bot token where the user chose. Returns the fields to save
+ * in config.json: a secret reference, or the token itself.
+ */
+async function storeToken(
+  botToken: string,
+  key: string,
+  options: SetupOptions
+): Promise<TokenFields> {
+  // Scripts that don't pick a backend keep the previous behavior
+  const storage =
+    options.tokenStorage ??
+    (options.nonInteractive ? "config" : await askTokenStorage(options));
+  if (storage === "config") {
+    return { botToken };
+  }
 
-    await mkdir(join(homedir(), ".claude"), { recursive: true });
-    await Bun.write(CLAUDE_SETTINGS_PATH, JSON.stringify(settings, null, 2));
+  const backend = getSecretBackend(storage);
+  if (!(backend && (await backend.isAvailable()))) {
+    throw new Error(`Token storage "${storage}" is not available here.`);
+  }
 
-    console.log(`Hooks installed in: ${CLAUDE_SETTINGS_PATH}`);
-    return true;
-  } catch (error) {
-    console.error("Failed to install hooks:", (error as Error).message);
-    return false;
+  if (backend.name === "file" && !process.env.CLAUDE_TELEGRAM_PASSPHRASE) {
+    process.env.CLAUDE_TELEGRAM_PASSPHRASE = await ask(
+      options,
+      "Passphrase for the encrypted file: ",
+      "CLAUDE_TELEGRAM_PASSPHRASE for --token-storage file"
+    );
+    log(
+      "Export CLAUDE_TELEGRAM_PASSPHRASE in the environment Claude Code runs in, so hooks can unlock the token."
+    );
   }
+
+  const botTokenRef = await storeSecret(backend.name, key, botToken);
+  log(`Token stored in ${backend.description} as ${botTokenRef}`);
+  return { botTokenRef };
 }
 
-export async function runSetupWizard(): Promise<void> {
-  printHeader();
+async function getStoredBotToken(stored: StoredConfig): Promise<string> {
+  if (stored.botToken) {
+    return stored.botToken;
+  }
+  if (stored.botTokenRef) {
+    return await resolveSecretRef(stored.botTokenRef);
+  }
+  throw new Error("The default profile has no bot token. Reconfigure first.");
+}
 
-  if (await configExists()) {
-    const reconfigure = await prompt(
-      "Configuration already exists. Reconfigure? (y/N): "
+async function setUpHooks(
+  options: SetupOptions
+): Promise<SetupResult["hooks"]> {
+  let install = options.hooks;
+  if (install === undefined) {
+    install =
+      options.yes ||
+      (!options.nonInteractive &&
+        (
+          await prompt("\nInstall Claude Code hooks automatically? (Y/n): ")
+        ).toLowerCase() !== "n");
+  }
+  if (!install) {
+    return { installed: false };
+  }
+
+  // Unattended runs keep whatever an earlier install chose
+  const unattended = options.yes || options.nonInteractive;
+  let approvalHook = options.approvalHook;
+  if (!(approvalHook || unattended)) {
+    const answer = await prompt(
+      `Ask before tool calls (${PRE_TOOL_USE_MATCHER}) via PreToolUse instead of permission prompts? (y/N): `
     );
-    if (reconfigure.toLowerCase() !== "y") {
-      console.log("Setup cancelled.");
-      return;
-    }
+    approvalHook =
+      answer.toLowerCase() === "y" ? "pre-tool-use" : "notification";
   }
 
-  printStep(1, 4, "Create Telegram Bot");
-  const botToken = await getBotToken();
+  let events = options.events;
+  if (!(events || unattended)) {
+    const answer = await prompt(
+      "Also notify when subagents finish, sessions start or end, and before compacting? (y/N): "
+    );
+    events = answer.toLowerCase() === "y" ? [...LIFECYCLE_EVENTS] : [];
+  }
 
-  printStep(2, 4, "Get Chat ID");
-  const chatId = await getChatId(botToken);
+  log("\nConfiguring Claude Code hooks...");
+  const result = await installHooks(
+    getSettingsPath(options.scope ?? "user"),
+    approvalHook,
+    events
+  );
+  if (result.backupPath) {
+    log(`Backed up previous settings to: ${result.backupPath}`);
+  }
+  log(
+    result.changed
+      ? `Hooks installed in: ${result.path}`
+      : `Hooks already installed in: ${result.path}`
+  );
+  return {
+    installed: true,
+    approvalHook: result.approvalHook,
+    events: result.events,
+    path: result.path,
+    backupPath: result.backupPath,
+  };
+}
+
+/**
+ * Adds a named profile, e.g. a team group next to a personal DM, and
+ * optionally routes a path glob of projects to it.
+ */
+async function addProfile(
+  stored: StoredConfig,
+  options: SetupOptions
+): Promise<SetupResult> {
+  printStep(1, 4, "Name the Profile");
+  const name =
+    options.profile ??
+    (await ask(options, "Profile name (e.g. work): ", "--profile"));
+  if (!PROFILE_NAME.test(name)) {
+    throw new Error("Profile names may only contain letters, digits, - and _.");
+  }
+
+  printStep(2, 4, "Choose Bot and Chat");
+  // A profile reuses the default bot unless it's given a token
+  const newBot =
+    options.token !== undefined ||
+    (!(options.yes || options.nonInteractive) &&
+      (
+        await prompt("Use the same bot as the default profile? (Y/n): ")
+      ).toLowerCase() === "n");
+  const botToken = newBot
+    ? await getBotToken(options)
+    : await getStoredBotToken(stored);
+  const chatId = await getChatId(botToken, options);
 
   printStep(3, 4, "Test Connection");
-  const connected = await testConnection(botToken, chatId);
+  await verifyConnection(botToken, chatId, options);
+
+  printStep(4, 4, "Route Projects");
+  const route =
+    options.route ??
+    (options.yes || options.nonInteractive
+      ? ""
+      : await prompt(
+          `Path glob of projects that use "${name}" (e.g. ~/work/**, Enter to skip): `
+        ));
+
+  const tokenFields = newBot ? await storeToken(botToken, name, options) : {};
+  await saveConfig({
+    ...stored,
+    profiles: { ...stored.profiles, [name]: { ...tokenFields, chatId } },
+    profileRoutes: route
+      ? { ...stored.profileRoutes, [route]: name }
+      : stored.profileRoutes,
+  });
 
-  if (!connected) {
-    console.error("\nFailed to connect. Please check your token and chat ID.");
-    process.exit(1);
+  log(`
+Profile "${name}" saved to: ${getConfigPath()}
+
+To pin a project to it, add a ${PROJECT_CONFIG_FILE} containing:
+  { "profile": "${name}" }
+
+To test it:
+  claude-telegram --test --profile ${name}
+`);
+
+  return {
+    ok: true,
+    configPath: getConfigPath(),
+    profile: name,
+    botId: botToken.split(":")[0] ?? "",
+    chatId,
+    tokenStorage: tokenFields.botTokenRef ?? (newBot ? "config" : "default"),
+    hooks: { installed: false },
+  };
+}
+
+/**
+ * Whether to go ahead when a config exists: "add" for a new profile,
+ * "reconfigure" to replace the default one, or null to stop.
+ */
+async function chooseExistingAction(
+  options: SetupOptions
+): Promise<"add" | "reconfigure" | null> {
+  if (options.profile) {
+    return "add";
+  }
+  if (options.yes) {
+    return "reconfigure";
+  }
+  if (options.nonInteractive) {
+    throw new Error(
+      `Config already exists at ${getConfigPath()}. Pass --yes to overwrite it, or --profile to add a profile.`
+    );
+  }
+
+  const choice = await prompt(
+    "Configuration already exists. Reconfigure, or add a profile? (r/a/N): "
+  );
+  if (choice.toLowerCase() === "a") {
+    return "add";
   }
+  return choice.toLowerCase() === "r" ? "reconfigure" : null;
+}
 
-  console.log("Connection successful!");
+async function configureDefault(
+  existing: StoredConfig | null,
+  options: SetupOptions
+): Promise<SetupResult> {
+  printStep(1, 4, "Create Telegram Bot");
+  const botToken = await getBotToken(options);
+
+  printStep(2, 4, "Get Chat ID");
+  const chatId = await getChatId(botToken, options);
+
+  printStep(3, 4, "Test Connection");
+  await verifyConnection(botToken, chatId, options);
 
   printStep(4, 4, "Save Configuration");
+  const tokenFields = await storeToken(botToken, "default", options);
 
+  // Keep named profiles and other settings when reconfiguring
   await saveConfig({
-    botToken,
+    ...existing,
+    botToken: undefined,
+    botTokenRef: undefined,
+    ...tokenFields,
     chatId,
-    timeout: 3600,
+    timeout: existing?.timeout ?? 3600,
   });
-  console.log(`Config saved to: ${getConfigPath()}`);
+  log(`Config saved to: ${getConfigPath()}`);
 
-  const installHooksAnswer = await prompt(
-    "\nInstall Claude Code hooks automatically? (Y/n): "
-  );
-
-  if (installHooksAnswer.toLowerCase() !== "n") {
-    await installHooks();
-  }
+  const hooks = await setUpHooks(options);
 
-  console.log(`
+  log(`
 ╔═══════════════════════════════════════════════════════════╗
 ║                    Setup Complete!                         ║
 ╚═══════════════════════════════════════════════════════════╝
@@ -239,4 +582,62 @@ To reconfigure:
 To uninstall:
   claude-telegram --uninstall
 `);
+
+  return {
+    ok: true,
+    configPath: getConfigPath(),
+    profile: null,
+    botId: botToken.split(":")[0] ?? "",
+    chatId,
+    tokenStorage: tokenFields.botTokenRef ?? "config",
+    hooks,
+  };
+}
+
+async function runSteps(options: SetupOptions): Promise<SetupResult | null> {
+  printHeader();
+
+  const existing = await readStoredConfig();
+  if (existing || options.profile) {
+    const action = existing ? await chooseExistingAction(options) : "add";
+    if (action === "add" && existing) {
+      return await addProfile(existing, options);
+    }
+    if (action === "add") {
+      throw new Error("Set up the default profile before adding profiles.");
+    }
+    if (!action) {
+      log("Setup cancelled.");
+      return null;
+    }
+  }
+
+  return await configureDefault(existing, options);
+}
+
+/**
+ * Runs the setup wizard. With `--json` or `--non-interactive`, progress
+ * goes to stderr and the result, or the error, including a bad flag, is
+ * printed to stdout as JSON.
+ */
+export async function runSetupWizard(
+  args: string[] = [],
+  env: Record<string, string | undefined> = process.env
+): Promise<void> {
+  if (!wantsJson(args)) {
+    await runSteps(parseSetupOptions(args, env));
+    return;
+  }
+
+  log = console.error;
+  promptOutput = process.stderr;
+  try {
+    const result = await runSteps(parseSetupOptions(args, env));
+    console.log(
+      JSON.stringify(result ?? { ok: false, error: "Setup cancelled." })
+    );
+  } catch (error) {
+    console.log(JSON.stringify({ ok: false, error: (error as Error).message }));
+    process.exit(1);
+  }
 }
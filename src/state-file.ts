@@ -0,0 +1,81 @@
+import { mkdir, open, rename, rm, stat } from "node:fs/promises";
+import { dirname } from "node:path";
+
+// A lock older than this was left by a hook that died holding it
+const STALE_LOCK_MS = 10_000;
+const LOCK_WAIT_MS = 5000;
+const LOCK_RETRY_MS = 15;
+
+function isAlreadyExists(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === "EEXIST";
+}
+
+async function isStale(lockPath: string, now: number): Promise<boolean> {
+  try {
+    return now - (await stat(lockPath)).mtimeMs > STALE_LOCK_MS;
+  } catch {
+    // Released between our attempt and the stat; just try again
+    return false;
+  }
+}
+
+async function acquireLock(lockPath: string): Promise<void> {
+  const startedAt = Date.now();
+  while (true) {
+    try {
+      const handle = await open(lockPath, "wx");
+      await handle.close();
+      return;
+    } catch (error) {
+      if (!isAlreadyExists(error)) {
+        throw error;
+      }
+    }
+
+    const now = Date.now();
+    if (await isStale(lockPath, now)) {
+      await rm(lockPath, { force: true });
+      continue;
+    }
+    if (now - startedAt > LOCK_WAIT_MS) {
+      throw new Error(`Timed out waiting for the lock on ${lockPath}`);
+    }
+    await Bun.sleep(LOCK_RETRY_MS);
+  }
+}
+
+/**
+ * Runs a read-modify-write of a state file shared by parallel hook
+ * processes, e.g. sessions.json, holding `<path>.lock` meanwhile.
+ */
+export async function withFileLock<T>(
+  path: string,
+  update: () => Promise<T>
+): Promise<T> {
+  const lockPath = `${path}.lock`;
+  await mkdir(dirname(path), { recursive: true });
+  await acquireLock(lockPath);
+  try {
+    return await update();
+  } finally {
+    await rm(lockPath, { force: true });
+  }
+}
+
+/**
+ * Replaces a file in one step, so a reader never sees it half written.
+ */
+export async function writeFileAtomic(
+  path: string,
+  content: string
+): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const tempPath = `${path}.${process.pid}.${crypto.randomUUID().slice(0, 8)}.tmp`;
+  try {
+    await Bun.write(tempPath, content);
+    await rename(tempPath, path);
+  } catch (error) {
+    await rm(tempPath, { force: true });
+    throw error;
+  }
+}
@@ -1,35 +1,129 @@
+import type { CommandRouter } from "./commands";
 import type {
+  Allowlist,
+  BotCommand,
+  DocumentAttachment,
+  InlineKeyboardButton,
   InlineKeyboardMarkup,
+  PendingRequest,
+  Responder,
   SendMessageParams,
   TelegramApiResponse,
+  TelegramChat,
   TelegramConfig,
   TelegramMessage,
   TelegramUpdate,
+  TelegramUser,
+  TelegramWebhookInfo,
   UserResponse,
 } from "./types";
 
 const TELEGRAM_API_BASE = "https://api.telegram.org/bot";
 
+const LEADING_AT = /^@/;
+
+const REPLY_PROMPT =
+  "Reply to this message with your instructions. Long instructions can span several replies; tap Done on the request when finished, or Cancel.";
+// Callback data of choice buttons is this prefix plus the choice index
+const CHOICE_PREFIX = "choice:";
+// Blank line between collected reply messages
+const REPLY_PART_SEPARATOR = "\n\n";
+
+function normalizeUsername(username: string): string {
+  return username.replace(LEADING_AT, "").toLowerCase();
+}
+
+function isPendingChat(pending: PendingRequest, chatId: number): boolean {
+  return pending.chatId === undefined || pending.chatId === String(chatId);
+}
+
+/**
+ * Whether a message replies to the request, its Reply prompt or a reply
+ * already collected for it. Other chat messages are ignored.
+ */
+function isReplyToPending(
+  message: TelegramMessage,
+  pending: PendingRequest
+): boolean {
+  const target = message.reply_to_message?.message_id;
+  if (target === undefined) {
+    return false;
+  }
+  return (
+    target === pending.promptMessageId ||
+    target === pending.messageId ||
+    (pending.replyParts ?? []).some((part) => part.messageId === target)
+  );
+}
+
+function toResponder(user: TelegramUser): Responder {
+  const name = [user.first_name, user.last_name].filter(Boolean).join(" ");
+  return { id: user.id, username: user.username, name };
+}
+
 export class TelegramClient {
   private readonly baseUrl: string;
-  private readonly chatId: string;
+  readonly chatId: string;
+  // The numeric part of the token, safe to show and use in file names
+  readonly botId: string;
   private readonly timeout: number;
+  readonly allowlist: Allowlist;
   private lastUpdateId = 0;
+  // Answers /commands that arrive while this process polls for a response
+  commands: CommandRouter | undefined;
 
   constructor(config: TelegramConfig) {
     this.baseUrl = `${TELEGRAM_API_BASE}${config.botToken}`;
     this.chatId = config.chatId;
+    this.botId = config.botToken.split(":")[0] ?? "";
     this.timeout = config.timeout;
+    this.allowlist = {
+      allowedUserIds: config.allowedUserIds ?? [],
+      approverUsernames: config.approverUsernames ?? [],
+    };
+  }
+
+  /**
+   * Whether a user may answer requests, checked against this client's
+   * allowlist unless the request carries its own. With no allowlist
+   * configured, anyone who can see the message may.
+   */
+  isAuthorized(
+    user: TelegramUser | undefined,
+    allowlist: Allowlist = this.allowlist
+  ): boolean {
+    const allowedUserIds = allowlist.allowedUserIds ?? [];
+    const approverUsernames = (allowlist.approverUsernames ?? []).map(
+      normalizeUsername
+    );
+    if (allowedUserIds.length === 0 && approverUsernames.length === 0) {
+      return true;
+    }
+    if (!user) {
+      return false;
+    }
+    if (allowedUserIds.includes(user.id)) {
+      return true;
+    }
+    return (
+      user.username !== undefined &&
+      approverUsernames.includes(normalizeUsername(user.username))
+    );
   }
 
   private async apiCall<T>(
     method: string,
-    params: Record<string, unknown> = {}
+    params: Record<string, unknown> | FormData = {}
   ): Promise<T> {
+    // File uploads go as multipart, everything else as JSON
     const response = await fetch(`${this.baseUrl}/${method}`, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(params),
+      ...(params instanceof FormData
+        ? { body: params }
+        : {
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(params),
+          }),
     });
 
     const data = (await response.json()) as TelegramApiResponse<T>;
@@ -43,7 +137,9 @@ export class TelegramClient {
 
   sendMessage(
     text: string,
-    replyMarkup?: InlineKeyboardMarkup
+    replyMarkup?: InlineKeyboardMarkup,
+    silent = false,
+    replyToMessageId?: number
   ): Promise<TelegramMessage> {
     const params: SendMessageParams = {
       chat_id: this.chatId,
@@ -54,16 +150,56 @@ export class TelegramClient {
     if (replyMarkup) {
       params.reply_markup = replyMarkup;
     }
+    if (silent) {
+      params.disable_notification = true;
+    }
+    if (replyToMessageId) {
+      params.reply_to_message_id = replyToMessageId;
+    }
 
     return this.apiCall<TelegramMessage>("sendMessage", { ...params });
   }
 
+  sendDocument(
+    document: DocumentAttachment,
+    replyToMessageId?: number
+  ): Promise<TelegramMessage> {
+    const form = new FormData();
+    form.append("chat_id", this.chatId);
+    form.append(
+      "document",
+      new Blob([document.content], { type: "text/plain" }),
+      document.filename
+    );
+    if (replyToMessageId) {
+      form.append("reply_to_message_id", String(replyToMessageId));
+    }
+
+    return this.apiCall<TelegramMessage>("sendDocument", form);
+  }
+
+  editMessageText(
+    messageId: number,
+    text: string,
+    replyMarkup?: InlineKeyboardMarkup,
+    chatId: string | number = this.chatId
+  ): Promise<TelegramMessage | boolean> {
+    return this.apiCall<TelegramMessage | boolean>("editMessageText", {
+      chat_id: chatId,
+      message_id: messageId,
+      text,
+      parse_mode: "HTML",
+      reply_markup: replyMarkup,
+    });
+  }
+
   editMessageReplyMarkup(
     messageId: number,
-    replyMarkup?: InlineKeyboardMarkup
+    replyMarkup?: InlineKeyboardMarkup,
+    chatId: string | number = this.chatId
   ): Promise<TelegramMessage | boolean> {
     return this.apiCall<TelegramMessage | boolean>("editMessageReplyMarkup", {
-      chat_id: this.chatId,
+      chat_id: chatId,
       message_id: messageId,
       reply_markup: replyMarkup,
     });
@@ -71,11 +207,13 @@ export class TelegramClient {
 
   answerCallbackQuery(
     callbackQueryId: string,
-    text?: string
+    text?: string,
+    showAlert = false
   ): Promise<boolean> {
     return this.apiCall<boolean>("answerCallbackQuery", {
       callback_query_id: callbackQueryId,
       text,
+      show_alert: showAlert,
     });
   }
 
@@ -97,111 +235,290 @@ export class TelegramClient {
 
   sendNotificationWithButtons(
     text: string,
-    includeReplyButton = true
+    includeReplyButton = true,
+    includeGrantButtons = false
   ): Promise<TelegramMessage> {
-    const buttons = [
-      [
-        { text: "Approve", callback_data: "approve" },
-        { text: "Deny", callback_data: "deny" },
-      ],
-    ];
-
-    if (includeReplyButton) {
-      buttons.push([
-        { text: "Skip", callback_data: "skip" },
-        { text: "Reply", callback_data: "reply" },
-      ]);
-    }
+    return this.sendMessage(
+      text,
+      createApprovalKeyboard(includeReplyButton, includeGrantButtons)
+    );
+  }
 
-    return this.sendMessage(text, { inline_keyboard: buttons });
+  sendSimpleNotification(
+    text: string,
+    silent = false
+  ): Promise<TelegramMessage> {
+    return this.sendMessage(text, undefined, silent);
   }
 
-  sendSimpleNotification(text: string): Promise<TelegramMessage> {
-    return this.sendMessage(text);
+  /**
+   * Edits a pending request's buttons in the chat it was sent to, which
+   * under the daemon may belong to another profile.
+   */
+  private setPendingKeyboard(
+    pending: PendingRequest,
+    replyMarkup?: InlineKeyboardMarkup
+  ): Promise<TelegramMessage | boolean> {
+    return this.editMessageReplyMarkup(
+      pending.messageId,
+      replyMarkup,
+      pending.chatId ?? this.chatId
+    );
   }
 
   private async handleCallbackQuery(
     update: TelegramUpdate,
-    sentMessageId: number
+    pending: PendingRequest
   ): Promise<UserResponse | "wait_for_text" | null> {
     if (!update.callback_query) {
       return null;
     }
 
     const callbackData = update.callback_query.data;
-    const callbackMessageId = update.callback_query.message?.message_id;
+    const callbackMessage = update.callback_query.message;
+
+    if (
+      callbackMessage?.message_id !== pending.messageId ||
+      !isPendingChat(pending, callbackMessage.chat.id)
+    ) {
+      return null;
+    }
+
+    if (!this.isAuthorized(update.callback_query.from, pending.allowlist)) {
+      await this.answerCallbackQuery(
+        update.callback_query.id,
+        "You are not authorized",
+        true
+      );
+      return null;
+    }
 
-    if (callbackMessageId !== sentMessageId) {
+    const responder = toResponder(update.callback_query.from);
+
+    if (callbackData === "reply_done" || callbackData === "reply_cancel") {
+      return await this.finishReply(
+        update.callback_query.id,
+        callbackData,
+        pending,
+        responder
+      );
+    }
+
+    // Quorum requests keep their keyboard until enough people approve
+    if (callbackData === "tally") {
+      await this.answerCallbackQuery(update.callback_query.id);
       return null;
     }
+    if (callbackData === "approve" && (pending.quorum ?? 1) > 1) {
+      return await this.recordApproval(
+        update.callback_query.id,
+        pending,
+        responder
+      );
+    }
 
     await this.answerCallbackQuery(update.callback_query.id);
-    await this.editMessageReplyMarkup(sentMessageId, undefined);
+    await this.setPendingKeyboard(pending);
 
     if (callbackData === "approve") {
-      return { type: "approve" };
+      return { type: "approve", responder };
+    }
+    if (callbackData === "approve_session") {
+      return { type: "approve", remember: "session", responder };
+    }
+    if (callbackData === "approve_project") {
+      return { type: "approve", remember: "project", responder };
     }
     if (callbackData === "deny") {
-      return { type: "deny" };
+      return { type: "deny", responder };
     }
     if (callbackData === "skip") {
-      return { type: "skip" };
+      return { type: "skip", responder };
+    }
+    if (callbackData?.startsWith(CHOICE_PREFIX)) {
+      const index = Number(callbackData.slice(CHOICE_PREFIX.length));
+      return { type: "choice", index, responder };
     }
     if (callbackData === "reply") {
-      await this.sendMessage("Type your response (or /cancel to cancel):");
+      await this.promptForReply(pending, callbackMessage.chat.id);
       return "wait_for_text";
     }
 
     return null;
   }
 
-  private handleTextMessage(
+  /**
+   * Sends a force-reply prompt, in the chat that was tapped, which may not
+   * be this client's, and swaps the request's buttons for Done/Cancel.
+   */
+  private async promptForReply(
+    pending: PendingRequest,
+    chatId: number
+  ): Promise<void> {
+    const prompt = await this.apiCall<TelegramMessage>("sendMessage", {
+      chat_id: chatId,
+      text: REPLY_PROMPT,
+      reply_to_message_id: pending.messageId,
+      reply_markup: {
+        force_reply: true,
+        input_field_placeholder: "Instructions for Claude",
+      },
+    });
+    pending.promptMessageId = prompt.message_id;
+    pending.replyParts = [];
+    await this.setPendingKeyboard(pending, createReplyKeyboard(0));
+  }
+
+  /**
+   * Handles Done and Cancel while a reply is being collected. Done joins
+   * the collected messages into one text response.
+   */
+  private async finishReply(
+    callbackQueryId: string,
+    callbackData: string,
+    pending: PendingRequest,
+    responder: Responder
+  ): Promise<UserResponse | null> {
+    const parts = pending.replyParts ?? [];
+    if (callbackData === "reply_done" && parts.length === 0) {
+      await this.answerCallbackQuery(
+        callbackQueryId,
+        "Reply to the prompt message first"
+      );
+      return null;
+    }
+
+    await this.answerCallbackQuery(callbackQueryId);
+    await this.setPendingKeyboard(pending);
+    if (callbackData === "reply_cancel") {
+      return { type: "skip", responder };
+    }
+    return {
+      type: "text",
+      content: parts.map((part) => part.text).join(REPLY_PART_SEPARATOR),
+      responder,
+    };
+  }
+
+  private async recordApproval(
+    callbackQueryId: string,
+    pending: PendingRequest,
+    responder: Responder
+  ): Promise<UserResponse | null> {
+    const quorum = pending.quorum ?? 1;
+    const approvers = pending.approvers ?? [];
+    pending.approvers = approvers;
+
+    if (approvers.some((approver) => approver.id === responder.id)) {
+      await this.answerCallbackQuery(
+        callbackQueryId,
+        "You already approved this request"
+      );
+      return null;
+    }
+
+    approvers.push(responder);
+
+    if (approvers.length >= quorum) {
+      await this.answerCallbackQuery(callbackQueryId);
+      await this.setPendingKeyboard(pending);
+      return { type: "approve", responder, approvers: [...approvers] };
+    }
+
+    await this.answerCallbackQuery(
+      callbackQueryId,
+      `Approval recorded (${approvers.length}/${quorum})`
+    );
+    await this.setPendingKeyboard(
+      pending,
+      createQuorumKeyboard(approvers, quorum)
+    );
+    return null;
+  }
+
+  /**
+   * Collects a reply to the request. Resolves only for /cancel; other
+   * replies wait for Done so instructions can span several messages.
+   */
+  private async handleTextMessage(
     update: TelegramUpdate,
-    waitingForText: boolean
-  ): UserResponse | null {
-    if (!(update.message?.text && waitingForText)) {
+    pending: PendingRequest
+  ): Promise<UserResponse | null> {
+    const message = update.message;
+    if (!(message?.text && pending.waitingForText)) {
       return null;
     }
+    if (
+      !(
+        isPendingChat(pending, message.chat.id) &&
+        isReplyToPending(message, pending) &&
+        this.isAuthorized(message.from, pending.allowlist)
+      )
+    ) {
+      return null;
+    }
+
+    if (message.text === "/cancel") {
+      await this.setPendingKeyboard(pending);
+      return {
+        type: "skip",
+        responder: message.from ? toResponder(message.from) : undefined,
+      };
+    }
 
-    const text = update.message.text;
+    const parts = pending.replyParts ?? [];
+    parts.push({ messageId: message.message_id, text: message.text });
+    pending.replyParts = parts;
+    await this.setPendingKeyboard(pending, createReplyKeyboard(parts.length));
+    return null;
+  }
 
-    if (text === "/cancel") {
-      return { type: "skip" };
+  /**
+   * Applies one update to a pending request. Returns the user's response
+   * once the request is resolved, or null if it is still waiting.
+   */
+  async handleUpdate(
+    update: TelegramUpdate,
+    pending: PendingRequest
+  ): Promise<UserResponse | null> {
+    const callbackResult = await this.handleCallbackQuery(update, pending);
+    if (callbackResult === "wait_for_text") {
+      pending.waitingForText = true;
+      return null;
+    }
+    if (callbackResult) {
+      return callbackResult;
     }
 
-    return { type: "text", content: text };
+    return await this.handleTextMessage(update, pending);
+  }
+
+  async pollUpdates(timeout = 30): Promise<TelegramUpdate[]> {
+    const updates = await this.getUpdates(this.lastUpdateId, timeout);
+    const lastUpdate = updates.at(-1);
+    if (lastUpdate) {
+      this.lastUpdateId = lastUpdate.update_id + 1;
+    }
+    return updates;
   }
 
   private async processUpdates(
     updates: TelegramUpdate[],
-    sentMessageId: number,
-    waitingForText: boolean
-  ): Promise<{ response: UserResponse | null; waitingForText: boolean }> {
-    let currentWaitingForText = waitingForText;
-
+    pending: PendingRequest
+  ): Promise<UserResponse | null> {
     for (const update of updates) {
       this.lastUpdateId = update.update_id + 1;
 
-      const callbackResult = await this.handleCallbackQuery(
-        update,
-        sentMessageId
-      );
-      if (callbackResult === "wait_for_text") {
-        currentWaitingForText = true;
-      } else if (callbackResult) {
-        return {
-          response: callbackResult,
-          waitingForText: currentWaitingForText,
-        };
+      if (await this.commands?.handle(update, [pending])) {
+        continue;
       }
-
-      const textResult = this.handleTextMessage(update, currentWaitingForText);
-      if (textResult) {
-        return { response: textResult, waitingForText: currentWaitingForText };
+      const response = await this.handleUpdate(update, pending);
+      if (response) {
+        return response;
       }
     }
 
-    return { response: null, waitingForText: currentWaitingForText };
+    return null;
   }
 
   private sleep(ms: number): Promise<void> {
@@ -209,29 +526,23 @@ export class TelegramClient {
   }
 
   async waitForResponse(
-    sentMessageId: number,
+    pending: PendingRequest,
     timeoutSeconds?: number
   ): Promise<UserResponse> {
     const timeout = timeoutSeconds ?? this.timeout;
     const startTime = Date.now();
     const timeoutMs = timeout * 1000;
-    let waitingForText = false;
 
     await this.clearPendingUpdates();
 
     while (Date.now() - startTime < timeoutMs) {
       try {
         const updates = await this.getUpdates(this.lastUpdateId, 5);
-        const result = await this.processUpdates(
-          updates,
-          sentMessageId,
-          waitingForText
-        );
-
-        if (result.response) {
-          return result.response;
+        const response = await this.processUpdates(updates, pending);
+
+        if (response) {
+          return response;
         }
-        waitingForText = result.waitingForText;
       } catch {
         await this.sleep(1000);
       }
@@ -240,9 +551,40 @@ export class TelegramClient {
     return { type: "timeout" };
   }
 
+  getMe(): Promise<TelegramUser> {
+    return this.apiCall<TelegramUser>("getMe");
+  }
+
+  getChat(): Promise<TelegramChat> {
+    return this.apiCall<TelegramChat>("getChat", { chat_id: this.chatId });
+  }
+
+  /**
+   * Registers the bot's /commands for this chat, so Telegram suggests them
+   * as you type.
+   */
+  async setMyCommands(commands: BotCommand[]): Promise<void> {
+    await this.apiCall("setMyCommands", {
+      commands,
+      scope: { type: "chat", chat_id: this.chatId },
+    });
+  }
+
+  getWebhookInfo(): Promise<TelegramWebhookInfo> {
+    return this.apiCall<TelegramWebhookInfo>("getWebhookInfo");
+  }
+
+  /**
+   * Shows "typing..." in the chat. Fails like sendMessage would when the
+   * bot can't post there, without leaving a message behind.
+   */
+  async sendChatAction(action = "typing"): Promise<void> {
+    await this.apiCall("sendChatAction", { chat_id: this.chatId, action });
+  }
+
   async testConnection(): Promise<boolean> {
     try {
-      const me = await this.apiCall<{ username: string }>("getMe");
+      const me = await this.getMe();
       return !!me.username;
     } catch {
       return false;
@@ -250,17 +592,107 @@ export class TelegramClient {
   }
 }
 
-export function createApprovalKeyboard(): InlineKeyboardMarkup {
+export function createApprovalKeyboard(
+  includeReplyButton = true,
+  includeGrantButtons = false
+): InlineKeyboardMarkup {
+  const buttons: InlineKeyboardButton[][] = [
+    [
+      { text: "Approve", callback_data: "approve" },
+      { text: "Deny", callback_data: "deny" },
+    ],
+  ];
+
+  if (includeGrantButtons) {
+    buttons.push([
+      { text: "Allow for this session", callback_data: "approve_session" },
+      {
+        text: "Always allow in this project",
+        callback_data: "approve_project",
+      },
+    ]);
+  }
+
+  if (includeReplyButton) {
+    buttons.push([
+      { text: "Skip", callback_data: "skip" },
+      { text: "Reply", callback_data: "reply" },
+    ]);
+  }
+
+  return { inline_keyboard: buttons };
+}
+
+/**
+ * Keyboard for a question: one button per choice, then Skip and, unless
+ * `allowReply` is false, Reply so the answer can be typed instead.
+ */
+export function createChoiceKeyboard(
+  labels: string[],
+  allowReply = true
+): InlineKeyboardMarkup {
+  const skip = { text: "Skip", callback_data: "skip" };
+  return {
+    inline_keyboard: [
+      ...labels.map((text, index) => [
+        { text, callback_data: `${CHOICE_PREFIX}${index}` },
+      ]),
+      allowReply ? [skip, { text: "Reply", callback_data: "reply" }] : [skip],
+    ],
+  };
+}
+
+/**
+ * Keyboard for a Stop notification. Continue opens the same reply flow
+ * as Reply; Stop here lets Claude stop without waiting out the window.
+ */
+export function createContinueKeyboard(): InlineKeyboardMarkup {
   return {
     inline_keyboard: [
       [
-        { text: "Approve", callback_data: "approve" },
-        { text: "Deny", callback_data: "deny" },
+        { text: "Continue with…", callback_data: "reply" },
+        { text: "Stop here", callback_data: "skip" },
       ],
+    ],
+  };
+}
+
+/**
+ * Replaces the approval buttons while a reply is being written. Done
+ * shows how many messages it will send.
+ */
+export function createReplyKeyboard(collected: number): InlineKeyboardMarkup {
+  const done = collected > 0 ? `Done (${collected})` : "Done";
+  return {
+    inline_keyboard: [
       [
-        { text: "Skip", callback_data: "skip" },
-        { text: "Reply", callback_data: "reply" },
+        { text: done, callback_data: "reply_done" },
+        { text: "Cancel", callback_data: "reply_cancel" },
       ],
     ],
   };
 }
+
+function formatTally(approvers: Responder[], quorum: number): string {
+  const names = approvers.map((approver) =>
+    approver.username ? `@${approver.username}` : approver.name
+  );
+  const tally = `${approvers.length}/${quorum} approved`;
+  return names.length > 0 ? `${tally}: ${names.join(", ")}` : tally;
+}
+
+/**
+ * Keyboard for requests that need several distinct approvers. The first
+ * row shows the live tally; a single Deny still resolves the request.
+ */
+export function createQuorumKeyboard(
+  approvers: Responder[],
+  quorum: number
+): InlineKeyboardMarkup {
+  return {
+    inline_keyboard: [
+      [{ text: formatTally(approvers, quorum), callback_data: "tally" }],
+      ...createApprovalKeyboard(true, false).inline_keyboard,
+    ],
+  };
+}
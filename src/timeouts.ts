@@ -0,0 +1,112 @@
+import type { TelegramClient } from "./telegram";
+import type {
+  ClaudeHookInput,
+  ResolvedTimeoutRule,
+  TelegramConfig,
+  TimeoutRule,
+} from "./types";
+
+/**
+ * Picks the timeout rule for a request. Tool rules override event rules,
+ * which override the policy defaults; anything left unset falls back to
+ * the global `timeout` and denying.
+ */
+export function resolveTimeoutRule(
+  config: TelegramConfig,
+  input: Pick<ClaudeHookInput, "hook_event_name" | "tool_name">
+): ResolvedTimeoutRule {
+  const { events, tools, ...defaults } = config.timeoutPolicy ?? {};
+  const eventRule = events?.[input.hook_event_name];
+  const toolRule = input.tool_name ? tools?.[input.tool_name] : undefined;
+
+  const merged: TimeoutRule = { ...defaults, ...eventRule, ...toolRule };
+  const timeout = merged.timeout ?? config.timeout;
+
+  return {
+    timeout,
+    action: merged.action ?? "deny",
+    reminders: (merged.reminders ?? [])
+      .filter((seconds) => seconds > 0 && seconds < timeout)
+      .sort((a, b) => a - b),
+    extendBy: merged.extendBy ?? timeout,
+    escalateChatId: merged.escalateChatId,
+  };
+}
+
+/**
+ * Shrinks a rule so the wait and its timeout action fit in
+ * `budgetSeconds`, e.g. before Claude Code kills the hook. The timeout
+ * and any extension are scaled down together; reminders past the new
+ * timeout are dropped.
+ */
+export function fitTimeoutRule(
+  rule: ResolvedTimeoutRule,
+  budgetSeconds: number | undefined
+): ResolvedTimeoutRule {
+  const extended = rule.action === "remind" || rule.action === "escalate";
+  const total = rule.timeout + (extended ? rule.extendBy : 0);
+  if (budgetSeconds === undefined || total <= budgetSeconds) {
+    return rule;
+  }
+
+  const scale = Math.max(budgetSeconds, 1) / total;
+  const timeout = Math.max(Math.floor(rule.timeout * scale), 1);
+  return {
+    ...rule,
+    timeout,
+    reminders: rule.reminders.filter((seconds) => seconds < timeout),
+    extendBy: extended
+      ? Math.max(Math.floor(rule.extendBy * scale), 1)
+      : rule.extendBy,
+  };
+}
+
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes} min`;
+  }
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `${hours}h ${rest} min` : `${hours}h`;
+}
+
+export function formatReminder(remainingSeconds: number): string {
+  return `⏰ <b>Reminder:</b> still waiting for your response (${formatDuration(
+    remainingSeconds
+  )} left)`;
+}
+
+/**
+ * Sends a reminder, as a reply to the approval message, at each offset in
+ * `reminders`. Returns a function that cancels the ones not yet sent.
+ */
+export function scheduleReminders(
+  client: TelegramClient,
+  messageId: number,
+  rule: Pick<ResolvedTimeoutRule, "reminders" | "timeout">
+): () => void {
+  const timers = rule.reminders.map((seconds) =>
+    setTimeout(() => {
+      client
+        .sendMessage(
+          formatReminder(rule.timeout - seconds),
+          undefined,
+          false,
+          messageId
+        )
+        .catch((error) =>
+          console.error("Failed to send reminder:", (error as Error).message)
+        );
+    }, seconds * 1000)
+  );
+
+  return () => {
+    for (const timer of timers) {
+      clearTimeout(timer);
+    }
+  };
+}
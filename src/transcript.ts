@@ -0,0 +1,182 @@
+import type {
+  TranscriptContentBlock,
+  TranscriptEntry,
+  TurnSummary,
+} from "./types";
+
+// Tools whose file_path (or notebook_path) input is a file they change
+const EDIT_TOOLS = new Set(["Edit", "MultiEdit", "Write", "NotebookEdit"]);
+
+/**
+ * Parses a JSONL transcript. Lines that aren't JSON, such as a partially
+ * written last line, are skipped.
+ */
+export function parseTranscript(text: string): TranscriptEntry[] {
+  const entries: TranscriptEntry[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line) as TranscriptEntry);
+    } catch {
+      // Skip malformed lines
+    }
+  }
+  return entries;
+}
+
+function contentBlocks(entry: TranscriptEntry): TranscriptContentBlock[] {
+  const content = entry.message?.content;
+  if (typeof content === "string") {
+    return [{ type: "text", text: content }];
+  }
+  return content ?? [];
+}
+
+/**
+ * Whether an entry is a prompt typed by the user, as opposed to a tool
+ * result or a message Claude Code injected.
+ */
+function isUserPrompt(entry: TranscriptEntry): boolean {
+  if (entry.type !== "user" || entry.isMeta) {
+    return false;
+  }
+  const blocks = contentBlocks(entry);
+  return (
+    blocks.length > 0 && blocks.every((block) => block.type !== "tool_result")
+  );
+}
+
+function editedFile(block: TranscriptContentBlock): string | undefined {
+  if (block.type !== "tool_use" || !EDIT_TOOLS.has(block.name ?? "")) {
+    return;
+  }
+  const path = block.input?.file_path ?? block.input?.notebook_path;
+  return typeof path === "string" ? path : undefined;
+}
+
+function lastAssistantText(entries: TranscriptEntry[]): string | undefined {
+  for (const entry of entries.toReversed()) {
+    if (entry.type !== "assistant") {
+      continue;
+    }
+    const text = contentBlocks(entry)
+      .filter((block) => block.type === "text" && block.text?.trim())
+      .map((block) => block.text?.trim())
+      .join("\n\n");
+    if (text) {
+      return text;
+    }
+  }
+}
+
+function turnDuration(turn: TranscriptEntry[]): number | undefined {
+  const times = turn
+    .map((entry) =>
+      entry.timestamp ? Date.parse(entry.timestamp) : Number.NaN
+    )
+    .filter((time) => !Number.isNaN(time));
+  const first = times[0];
+  const last = times.at(-1);
+  return first !== undefined && last !== undefined ? last - first : undefined;
+}
+
+/**
+ * Summarizes the last turn: everything from the latest user prompt to the
+ * end of the transcript.
+ */
+export function summarizeTurn(entries: TranscriptEntry[]): TurnSummary {
+  const start = entries.findLastIndex(isUserPrompt);
+  const turn = start === -1 ? entries : entries.slice(start);
+
+  const toolUses = turn
+    .filter((entry) => entry.type === "assistant")
+    .flatMap(contentBlocks)
+    .filter((block) => block.type === "tool_use");
+  const editedFiles = [
+    ...new Set(
+      toolUses.map(editedFile).filter((path): path is string => !!path)
+    ),
+  ];
+
+  return {
+    lastMessage: lastAssistantText(turn),
+    toolCalls: toolUses.length,
+    editedFiles,
+    durationMs: turnDuration(turn),
+  };
+}
+
+/**
+ * When the session began, from the first timestamped entry.
+ */
+export function getSessionStart(
+  entries: TranscriptEntry[]
+): number | undefined {
+  for (const entry of entries) {
+    const time = entry.timestamp ? Date.parse(entry.timestamp) : Number.NaN;
+    if (!Number.isNaN(time)) {
+      return time;
+    }
+  }
+}
+
+/**
+ * Reads a session transcript. Returns null when it can't be read, so
+ * notifications fall back to what the hook input says.
+ */
+export async function readTranscript(
+  path: string | undefined
+): Promise<TranscriptEntry[] | null> {
+  if (!path) {
+    return null;
+  }
+  try {
+    const file = Bun.file(path);
+    if (!(await file.exists())) {
+      return null;
+    }
+    return parseTranscript(await file.text());
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * When the session in a transcript began. Reads only up to the first
+ * timestamped entry, since transcripts of long sessions get large.
+ */
+export async function readSessionStart(
+  path: string | undefined
+): Promise<number | undefined> {
+  if (!path) {
+    return;
+  }
+  try {
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for await (const chunk of Bun.file(path).stream()) {
+      buffer += decoder.decode(chunk, { stream: true });
+      const end = buffer.lastIndexOf("\n");
+      if (end === -1) {
+        continue;
+      }
+      const start = getSessionStart(parseTranscript(buffer.slice(0, end)));
+      if (start !== undefined) {
+        return start;
+      }
+      buffer = buffer.slice(end + 1);
+    }
+    return getSessionStart(parseTranscript(buffer));
+  } catch {
+    return;
+  }
+}
+
+export async function readTurnSummary(
+  path: string | undefined
+): Promise<TurnSummary | null> {
+  const entries = await readTranscript(path);
+  return entries && summarizeTurn(entries);
+}
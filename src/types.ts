@@ -21,15 +21,85 @@ export interface ClaudeHookInput {
   tool_use_id?: string;
   // Stop hook fields
   stop_hook_active?: boolean;
+  // SubagentStop fields
+  agent_id?: string;
+  agent_type?: string;
+  agent_transcript_path?: string;
+  // Session lifecycle fields: what started or ended the session
+  source?: "startup" | "resume" | "clear" | "compact";
+  reason?: string;
+  // PreCompact fields
+  trigger?: "manual" | "auto";
+  custom_instructions?: string;
+  // PostToolUseFailure field
+  error?: string;
+  // Elicitation fields (an MCP server asking the user for input)
+  mcp_server_name?: string;
+  requested_schema?: ElicitationSchema;
+}
+
+// Events that only notify, each installed and toggled separately
+export type LifecycleEvent =
+  | "SubagentStop"
+  | "SessionStart"
+  | "SessionEnd"
+  | "PreCompact"
+  | "PostToolUse";
+
+export type PermissionDecision = "allow" | "deny" | "ask";
+
+export interface PreToolUseHookSpecificOutput {
+  hookEventName: "PreToolUse";
+  permissionDecision: PermissionDecision;
+  permissionDecisionReason?: string;
+}
+
+export type ElicitationAction = "accept" | "decline" | "cancel";
+
+export interface ElicitationHookSpecificOutput {
+  hookEventName: "Elicitation";
+  action: ElicitationAction;
+  content?: Record<string, string | number | boolean>;
 }
 
-export interface ClaudeHookOutput {
+export interface ClaudeHookOutput<
+  HookSpecificOutput = PreToolUseHookSpecificOutput,
+> {
   continue?: boolean;
   stopReason?: string;
   suppressOutput?: boolean;
   systemMessage?: string;
   decision?: "approve" | "block";
   reason?: string;
+  hookSpecificOutput?: HookSpecificOutput;
+}
+
+// ============================================
+// Elicitation Types
+// ============================================
+
+/**
+ * One field of an elicitation form, in the JSON Schema subset MCP allows:
+ * primitives, optionally limited to `enum` values or `oneOf` constants.
+ */
+export interface ElicitationProperty {
+  type: "string" | "number" | "integer" | "boolean";
+  title?: string;
+  description?: string;
+  enum?: (string | number)[];
+  enumNames?: string[];
+  oneOf?: { const: string | number; title?: string }[];
+}
+
+export interface ElicitationSchema {
+  type: "object";
+  properties: Record<string, ElicitationProperty>;
+  required?: string[];
+}
+
+export interface ElicitationChoice {
+  label: string;
+  value: string | number | boolean;
 }
 
 // ============================================
@@ -41,6 +111,18 @@ export interface TelegramConfig {
   chatId: string;
   timeout: number; // in seconds
   projectPath: string;
+  // Named profile the config came from; undefined for the default
+  profile?: string;
+  // Who may answer; when both are empty, anyone in the chat can
+  allowedUserIds?: number[];
+  approverUsernames?: string[];
+  timeoutPolicy?: TimeoutPolicy;
+  // Seconds a Stop notification waits for a reply; 0 only notifies
+  continueTimeout?: number;
+  // Lifecycle events to stay quiet about even with their hook installed
+  events?: Partial<Record<LifecycleEvent, boolean>>;
+  // Seconds between failure alerts for one session; 0 sends every one
+  failureAlertCooldown?: number;
 }
 
 export interface TelegramMessage {
@@ -89,6 +171,16 @@ export interface InlineKeyboardButton {
   url?: string;
 }
 
+export interface BotCommand {
+  command: string;
+  description: string;
+}
+
+export interface ForceReply {
+  force_reply: true;
+  input_field_placeholder?: string;
+}
+
 export interface InlineKeyboardMarkup {
   inline_keyboard: InlineKeyboardButton[][];
 }
@@ -97,8 +189,15 @@ export interface SendMessageParams {
   chat_id: string | number;
   text: string;
   parse_mode?: "HTML" | "Markdown" | "MarkdownV2";
-  reply_markup?: InlineKeyboardMarkup;
+  reply_markup?: InlineKeyboardMarkup | ForceReply;
   disable_notification?: boolean;
+  reply_to_message_id?: number;
+}
+
+export interface TelegramWebhookInfo {
+  url: string;
+  pending_update_count: number;
+  last_error_message?: string;
 }
 
 export interface TelegramApiResponse<T> {
@@ -112,12 +211,79 @@ export interface TelegramApiResponse<T> {
 // Application Types
 // ============================================
 
+export type GrantScope = "session" | "project";
+
+export interface Responder {
+  id: number;
+  username?: string;
+  name: string;
+}
+
 export type UserResponse =
-  | { type: "approve" }
-  | { type: "deny" }
-  | { type: "skip" }
-  | { type: "text"; content: string }
-  | { type: "timeout" };
+  | {
+      type: "approve";
+      remember?: GrantScope;
+      responder?: Responder;
+      approvers?: Responder[];
+    }
+  | { type: "deny"; responder?: Responder }
+  | { type: "skip"; responder?: Responder }
+  | { type: "text"; content: string; responder?: Responder }
+  // A tapped choice button; label is filled in from the request's choices
+  | { type: "choice"; index: number; label?: string; responder?: Responder }
+  | { type: "timeout"; allowed?: boolean };
+
+/**
+ * How an approval message ended: a response, the prompt being answered
+ * somewhere else (e.g. in the terminal), or a hand-off to another chat.
+ */
+export type ApprovalOutcome =
+  | UserResponse
+  | { type: "elsewhere" }
+  | { type: "escalated" };
+
+export interface PendingRequest {
+  messageId: number;
+  // Message IDs are per chat, so taps are matched on both when known
+  chatId?: string;
+  waitingForText: boolean;
+  // Force-reply prompt sent when Reply was tapped; text only counts as a
+  // response when it replies to this, the request or an earlier part
+  promptMessageId?: number;
+  // Reply messages collected so far, sent as one response by Done
+  replyParts?: { messageId: number; text: string }[];
+  // Distinct approvals needed before the request resolves (default 1)
+  quorum?: number;
+  approvers?: Responder[];
+  // What the request is about, for /pending
+  info?: PendingRequestInfo;
+  // Who may answer, when it differs from the client handling the update,
+  // e.g. a daemon serving another profile's request
+  allowlist?: Allowlist;
+}
+
+/**
+ * Users who may answer requests. When both lists are empty, anyone in the
+ * chat can.
+ */
+export interface Allowlist {
+  allowedUserIds?: number[];
+  approverUsernames?: string[];
+}
+
+export interface PendingRequestInfo {
+  sessionId?: string;
+  projectName: string;
+  gitBranch?: string;
+  // Short description, e.g. "Bash: npm test"
+  summary: string;
+  requestedAt: number;
+}
+
+export interface DocumentAttachment {
+  filename: string;
+  content: string;
+}
 
 export interface NotificationContext {
   projectName: string;
@@ -125,4 +291,237 @@ export interface NotificationContext {
   eventType: string;
   message: string;
   toolName?: string;
+  toolInput?: Record<string, unknown>;
+  quorum?: number;
+  // Button labels for a question; replaces the approval buttons
+  choices?: string[];
+  // False drops the Reply button, for questions that take no typed answer
+  allowReply?: boolean;
+}
+
+// ============================================
+// Policy Types
+// ============================================
+
+export type PolicyAction = "allow" | "deny" | "ask";
+
+/**
+ * A rule matches when every field it sets matches. `tool` and `command`
+ * are regexes; `path`, `cwd` and `branch` are globs.
+ */
+export interface PolicyRule {
+  tool?: string;
+  command?: string;
+  path?: string;
+  cwd?: string;
+  branch?: string;
+  action: PolicyAction;
+  reason?: string;
+  notify?: boolean;
+  // Marks an "ask" rule as high-risk: N distinct approvers are required
+  quorum?: number;
+}
+
+export interface PolicyFile {
+  notify?: boolean;
+  rules: PolicyRule[];
+}
+
+export interface PolicyTarget {
+  toolName?: string;
+  toolInput?: Record<string, unknown>;
+  cwd: string;
+  gitBranch?: string;
+}
+
+export interface PolicyDecision {
+  action: PolicyAction;
+  rule?: PolicyRule;
+  reason?: string;
+  notify: boolean;
+  quorum?: number;
+}
+
+// ============================================
+// Timeout Policy Types
+// ============================================
+
+export type TimeoutAction = "deny" | "allow" | "remind" | "escalate";
+
+export interface TimeoutRule {
+  timeout?: number; // seconds to wait before the action
+  action?: TimeoutAction;
+  // Seconds after the request at which to send a reminder
+  reminders?: number[];
+  // Extra seconds to wait after a "remind" or "escalate" action
+  extendBy?: number;
+  // Chat (or user) ID that escalated requests go to
+  escalateChatId?: string;
+}
+
+/**
+ * Top-level fields are the defaults. Entries under `events` (keyed by
+ * hook_event_name) and `tools` (keyed by tool_name) override them, with
+ * tools taking precedence.
+ */
+export interface TimeoutPolicy extends TimeoutRule {
+  events?: Record<string, TimeoutRule>;
+  tools?: Record<string, TimeoutRule>;
+}
+
+export interface ResolvedTimeoutRule {
+  timeout: number;
+  action: TimeoutAction;
+  reminders: number[];
+  extendBy: number;
+  escalateChatId?: string;
+}
+
+// ============================================
+// Grant Types
+// ============================================
+
+/**
+ * A remembered "always allow" decision. `key` is the session_id for
+ * session grants and the cwd for project grants.
+ */
+export interface Grant {
+  id: string;
+  scope: GrantScope;
+  key: string;
+  toolName: string;
+  commandPrefix?: string;
+  createdAt: string;
+}
+
+// ============================================
+// Audit Types
+// ============================================
+
+// "elsewhere": Claude Code stopped the hook, e.g. answered in the terminal
+export type AuditDecision = UserResponse["type"] | "notified" | "elsewhere";
+
+export type AuditSource = "telegram" | "policy" | "grant" | "terminal";
+
+export interface AuditEntry {
+  requested_at: string;
+  decided_at: string;
+  latency_ms: number;
+  session_id?: string;
+  cwd: string;
+  branch?: string;
+  hook_event_name?: string;
+  tool_name?: string;
+  tool_input_hash?: string;
+  decision: AuditDecision;
+  source: AuditSource;
+  responder?: Responder;
+  approvers?: Responder[];
+  reason?: string;
+}
+
+export interface AuditFilter {
+  since?: Date;
+  until?: Date;
+  project?: string;
+  decision?: string;
+}
+
+// ============================================
+// Transcript Types
+// ============================================
+
+export interface TranscriptContentBlock {
+  type: string;
+  text?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+}
+
+/**
+ * One line of a Claude Code session transcript (JSONL). Only the fields
+ * the Stop summary reads are declared.
+ */
+export interface TranscriptEntry {
+  type: string;
+  timestamp?: string;
+  isMeta?: boolean;
+  message?: {
+    role?: string;
+    content?: string | TranscriptContentBlock[];
+  };
+}
+
+export interface TurnSummary {
+  lastMessage?: string;
+  toolCalls: number;
+  editedFiles: string[];
+  durationMs?: number;
+}
+
+// ============================================
+// Failure Alert Types
+// ============================================
+
+export interface ToolFailure {
+  toolName: string;
+  // Why the run counts as failed, e.g. "Exit code 1"
+  reason: string;
+  // The command or file the tool ran on
+  target?: string;
+  // Last lines of stderr, or stdout when stderr is empty
+  output?: string;
+}
+
+/**
+ * Rate-limit state for one session's failure alerts. Failures inside the
+ * cooldown are only counted, and reported with the next alert.
+ */
+export interface AlertState {
+  lastAlertAt: number;
+  suppressed: number;
+}
+
+// ============================================
+// Session Types
+// ============================================
+
+/**
+ * A Claude Code session seen by a hook, for /sessions. Hooks refresh
+ * lastSeenAt; SessionEnd removes the record.
+ */
+export interface SessionRecord {
+  sessionId: string;
+  projectName: string;
+  gitBranch?: string;
+  cwd: string;
+  startedAt: number;
+  lastSeenAt: number;
+}
+
+// ============================================
+// Daemon Protocol Types
+// ============================================
+
+// The request as the hook knows it, so approvals and a reply in progress
+// carry over when it waits again (e.g. after a reminder)
+export interface DaemonWaitRequest {
+  type: "wait";
+  pending: PendingRequest;
+}
+
+// What a tap or reply changed in a pending request, sent back to the hook
+export type PendingRequestState = Pick<
+  PendingRequest,
+  "waitingForText" | "promptMessageId" | "replyParts" | "approvers"
+>;
+
+export interface DaemonStateMessage {
+  type: "state";
+  state: PendingRequestState;
+}
+
+export interface DaemonResponseMessage {
+  type: "response";
+  response: UserResponse;
 }
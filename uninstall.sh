@@ -45,12 +45,18 @@ fi
 if [ -f "$CLAUDE_SETTINGS" ]; then
     echo "Removing hooks from: $CLAUDE_SETTINGS"
 
-    # Use a simple approach - create a backup and modify
+    # Keep a backup, then drop only claude-telegram commands so the user's
+    # own hooks survive
     if command -v jq &> /dev/null; then
-        # If jq is available, use it for proper JSON manipulation
-        jq 'del(.hooks.Notification) | del(.hooks.Stop)' "$CLAUDE_SETTINGS" > "$CLAUDE_SETTINGS.tmp"
+        cp "$CLAUDE_SETTINGS" "$CLAUDE_SETTINGS.bak"
+        jq 'if .hooks then
+              .hooks |= (map_values(
+                  map(.hooks |= map(select((.command // "") | test("^\\s*(\\S*/)?claude-telegram(\\s|$)") | not)))
+                  | map(select(.hooks | length > 0))
+                ) | with_entries(select(.value | length > 0)))
+            else . end' "$CLAUDE_SETTINGS" > "$CLAUDE_SETTINGS.tmp"
         mv "$CLAUDE_SETTINGS.tmp" "$CLAUDE_SETTINGS"
-        echo -e "${GREEN}  ✓ Hooks removed${NC}"
+        echo -e "${GREEN}  ✓ Hooks removed (backup: $CLAUDE_SETTINGS.bak)${NC}"
     else
         echo -e "${YELLOW}  jq not found - please manually remove hooks from $CLAUDE_SETTINGS${NC}"
     fi